@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import {
+  HALO_NONCE_COOKIE,
+  HaloAuthError,
+  issueLoginNonce,
+  sessionCookieOptions,
+} from "../../../../lib/halo-auth/server";
+import { HALO_LOGIN_TTL_SECONDS } from "../../../../lib/halo-auth/message";
+import type { HaloNonceResponse } from "../../../../lib/halo-auth/types";
+
+// Every call issues a new challenge
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const { nonce, expiresAt, cookie } = issueLoginNonce();
+    const response = NextResponse.json<HaloNonceResponse>({ nonce, expiresAt });
+    response.cookies.set(
+      HALO_NONCE_COOKIE,
+      cookie,
+      sessionCookieOptions(HALO_LOGIN_TTL_SECONDS)
+    );
+    return response;
+  } catch (err) {
+    if (err instanceof HaloAuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  HALO_SESSION_COOKIE,
+  readHaloSession,
+} from "../../../../lib/halo-auth/server";
+import type { HaloSessionResponse } from "../../../../lib/halo-auth/types";
+
+// Depends on the request cookie, never cache
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json<HaloSessionResponse>({
+    session: readHaloSession(request.cookies.get(HALO_SESSION_COOKIE)?.value),
+  });
+}
+
+// Signs out
+export async function DELETE() {
+  const response = NextResponse.json<HaloSessionResponse>({ session: null });
+  response.cookies.delete(HALO_SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  HALO_NONCE_COOKIE,
+  HALO_SESSION_COOKIE,
+  HALO_SESSION_TTL_SECONDS,
+  HaloAuthError,
+  parseHaloVerifyRequest,
+  sealHaloSession,
+  sessionCookieOptions,
+  verifyHaloLogin,
+} from "../../../../lib/halo-auth/server";
+import type { HaloSessionResponse } from "../../../../lib/halo-auth/types";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await verifyHaloLogin(
+      parseHaloVerifyRequest(await request.json().catch(() => null)),
+      request.cookies.get(HALO_NONCE_COOKIE)?.value,
+      request.headers.get("host")
+    );
+    const response = NextResponse.json<HaloSessionResponse>({ session });
+    // The nonce is single use
+    response.cookies.delete(HALO_NONCE_COOKIE);
+    response.cookies.set(
+      HALO_SESSION_COOKIE,
+      sealHaloSession(session),
+      sessionCookieOptions(HALO_SESSION_TTL_SECONDS)
+    );
+    return response;
+  } catch (err) {
+    if (err instanceof HaloAuthError) {
+      return NextResponse.json<HaloSessionResponse>(
+        { error: err.message },
+        { status: err.status }
+      );
+    }
+    console.error("HaLo sign-in failed:", err);
+    return NextResponse.json<HaloSessionResponse>(
+      { error: "Sign-in with HaLo failed" },
+      { status: 500 }
+    );
+  }
+}
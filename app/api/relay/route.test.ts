@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import type { RelayPaymentResponse } from "../../lib/relayer/types";
+
+// The relayer reads its settings on import
+process.env.RELAYER_RATE_LIMIT_PER_MINUTE = "3";
+process.env.RELAYER_TRUSTED_PROXIES = "1";
+delete process.env.RELAYER_PRIVATE_KEY;
+const { POST } = await import("./route");
+
+const VALID_BODY = {
+  chainId: 11155111,
+  haloAddress: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+  merchant: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+  amount: "12500000",
+  nonce: "1",
+  signature: `0x${"11".repeat(65)}`,
+};
+
+let nextClient = 0;
+// Each test gets its own client address so rate limits do not carry over
+const clientAddress = () => `198.51.100.${++nextClient}`;
+
+const relay = async (body: unknown, forwardedFor = clientAddress()) => {
+  const response = await POST(
+    new Request("http://localhost/api/relay", {
+      method: "POST",
+      headers: { "x-forwarded-for": forwardedFor },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    })
+  );
+  return {
+    status: response.status,
+    headers: response.headers,
+    body: (await response.json()) as RelayPaymentResponse,
+  };
+};
+
+describe("POST /api/relay", () => {
+  test.each([
+    [{ ...VALID_BODY, chainId: "11155111" }, "chainId must be a number"],
+    [
+      { ...VALID_BODY, haloAddress: "0x1234" },
+      "haloAddress must be an address",
+    ],
+    [{ ...VALID_BODY, merchant: undefined }, "merchant must be an address"],
+    [{ ...VALID_BODY, signature: "signed" }, "signature must be hex encoded"],
+    [{ ...VALID_BODY, amount: 12.5 }, "amount must be a decimal string"],
+    [{ ...VALID_BODY, amount: "1.5" }, "amount must be a decimal string"],
+    [{ ...VALID_BODY, amount: "0" }, "amount must be greater than zero"],
+    [{ ...VALID_BODY, nonce: "-1" }, "nonce must be a decimal string"],
+  ])("rejects invalid bodies (%#)", async (body, error) => {
+    const { status, body: response } = await relay(body);
+    expect(status).toBe(400);
+    expect(response).toEqual({ error });
+  });
+
+  test("rejects bodies that are not JSON", async () => {
+    const { status, body } = await relay("{not json");
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: "chainId must be a number" });
+  });
+
+  test("rejects chains without a HaloPayment deployment", async () => {
+    const { status, body } = await relay({ ...VALID_BODY, chainId: 1 });
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: "HaloPayment is not deployed on chain 1" });
+  });
+
+  test("reports a missing relayer key", async () => {
+    const { status, body } = await relay(VALID_BODY);
+    expect(status).toBe(503);
+    expect(body).toEqual({ error: "The payment relayer is not configured" });
+  });
+
+  test("rate limits by the address the proxy appended", async () => {
+    const client = clientAddress();
+    // Entries left of the proxy's are client controlled and ignored
+    for (let i = 0; i < 3; i++) {
+      const { status } = await relay({}, `203.0.113.${i}, ${client}`);
+      expect(status).toBe(400);
+    }
+    const { status, headers, body } = await relay(
+      {},
+      `203.0.113.99, ${client}`
+    );
+    expect(status).toBe(429);
+    expect(Number(headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(body).toEqual({
+      error: "Too many relay requests. Please wait a moment.",
+    });
+
+    expect((await relay({})).status).toBe(400);
+  });
+});
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import {
+  getRelayerStatus,
+  parseRelayPaymentRequest,
+  relayPayment,
+  relayRateLimiter,
+  RelayError,
+  RELAYER_TRUSTED_PROXIES,
+} from "../../lib/relayer/relayer";
+import { getClientIp } from "../../lib/relayer/rateLimit";
+import type {
+  RelayerStatus,
+  RelayPaymentResponse,
+} from "../../lib/relayer/types";
+
+// Relaying needs the server-held key, never cache or prerender this route
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const chainId = Number(new URL(request.url).searchParams.get("chainId"));
+  try {
+    return NextResponse.json<RelayerStatus>(await getRelayerStatus(chainId));
+  } catch (err) {
+    console.error("Failed to read relayer status:", err);
+    return NextResponse.json<RelayerStatus>({ enabled: false });
+  }
+}
+
+export async function POST(request: Request) {
+  const limit = relayRateLimiter.check(
+    getClientIp(request.headers, RELAYER_TRUSTED_PROXIES ?? 0)
+  );
+  if (!limit.allowed) {
+    return NextResponse.json<RelayPaymentResponse>(
+      { error: "Too many relay requests. Please wait a moment." },
+      {
+        status: 429,
+        headers: {
+          "Retry-After": String(Math.ceil(limit.retryAfterMs / 1000)),
+        },
+      }
+    );
+  }
+
+  try {
+    const payment = parseRelayPaymentRequest(
+      await request.json().catch(() => null)
+    );
+    const hash = await relayPayment(payment);
+    return NextResponse.json<RelayPaymentResponse>({ hash });
+  } catch (err) {
+    if (err instanceof RelayError) {
+      return NextResponse.json<RelayPaymentResponse>(
+        { error: err.message, errorName: err.errorName },
+        { status: err.status }
+      );
+    }
+    console.error("Relay failed:", err);
+    return NextResponse.json<RelayPaymentResponse>(
+      { error: "Relaying the payment failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import {
+  formatFiat,
+  formatShare,
+  getAllocation,
+  type AllocationGrouping,
+  type PortfolioAsset,
+} from "../lib/nexus";
+
+// Slice colours, reused in order when there are more slices than colours
+const PALETTE = [
+  "#2563eb",
+  "#16a34a",
+  "#f59e0b",
+  "#db2777",
+  "#7c3aed",
+  "#0891b2",
+  "#dc2626",
+  "#65a30d",
+];
+
+interface AllocationChartProps {
+  assets: PortfolioAsset[];
+  hideDust: boolean;
+}
+
+export default function AllocationChart({
+  assets,
+  hideDust,
+}: AllocationChartProps) {
+  const [grouping, setGrouping] = useState<AllocationGrouping>("chain");
+  const slices = getAllocation(assets, grouping, hideDust);
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-medium text-gray-900 dark:text-white">
+          📊 Allocation
+        </h3>
+        <div className="flex gap-1">
+          {(["chain", "token"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setGrouping(option)}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                grouping === option
+                  ? "bg-blue-600 text-white"
+                  : "bg-white dark:bg-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100"
+              }`}
+            >
+              By {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {slices.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          No priced balances to chart yet.
+        </p>
+      ) : (
+        <>
+          <div className="flex h-4 w-full overflow-hidden rounded-full mb-3">
+            {slices.map((slice, index) => (
+              <div
+                key={slice.key}
+                title={`${slice.label}: ${formatShare(slice.share)}`}
+                style={{
+                  width: `${slice.share}%`,
+                  backgroundColor: PALETTE[index % PALETTE.length],
+                }}
+              />
+            ))}
+          </div>
+          <ul className="grid grid-cols-2 gap-2 text-sm">
+            {slices.map((slice, index) => (
+              <li key={slice.key} className="flex items-center gap-2">
+                <span
+                  className="inline-block h-3 w-3 rounded-sm"
+                  style={{
+                    backgroundColor: PALETTE[index % PALETTE.length],
+                  }}
+                />
+                <span className="text-gray-900 dark:text-white">
+                  {slice.label}
+                </span>
+                <span className="ml-auto text-gray-600 dark:text-gray-400">
+                  {formatFiat(slice.fiat)} · {formatShare(slice.share)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { maxUint256, type Address } from "viem";
+import { useWallets } from "@privy-io/react-auth";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  describeHaloPaymentError,
+  erc20Abi,
+  getDeployment,
+} from "../lib/halo-payment";
+import { formatUsdc, parseUsdcAmount } from "../lib/pos/cart";
+import { createWalletHaloPaymentClient, getPrivyWallet } from "../lib/wallet";
+
+interface AllowanceManagerProps {
+  chainId: number;
+  disabled?: boolean;
+}
+
+type AllowanceAction = "set" | "topUp" | "reset";
+
+// Older registrations approved the maximum, show that as a word
+const formatAllowance = (allowance: bigint) =>
+  allowance === maxUint256 ? "Unlimited" : `${formatUsdc(allowance)} USDC`;
+
+export default function AllowanceManager({
+  chainId,
+  disabled = false,
+}: AllowanceManagerProps) {
+  const { wallets } = useWallets();
+  const wallet = getPrivyWallet(wallets);
+  const walletAddress = wallet?.address as Address | undefined;
+
+  const deployment = getDeployment(chainId);
+  const publicClient = useMemo(
+    () => createDeploymentPublicClient(deployment),
+    [deployment]
+  );
+  const haloPayment = useMemo(
+    () =>
+      createHaloPaymentClient({
+        address: deployment.haloPayment,
+        publicClient,
+      }),
+    [deployment, publicClient]
+  );
+
+  const [allowance, setAllowance] = useState<bigint | null>(null);
+  const [usdcBalance, setUsdcBalance] = useState<bigint | null>(null);
+  const [amountInput, setAmountInput] = useState<string>("");
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const refresh = useCallback(async () => {
+    if (!walletAddress) return;
+    try {
+      const [currentAllowance, balance] = await Promise.all([
+        haloPayment.getAllowance(walletAddress, deployment.usdc),
+        publicClient.readContract({
+          address: deployment.usdc,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [walletAddress],
+        }),
+      ]);
+      setAllowance(currentAllowance);
+      setUsdcBalance(balance);
+    } catch (err) {
+      setError(describeHaloPaymentError(err, "Failed to read allowance"));
+    }
+  }, [haloPayment, publicClient, deployment, walletAddress]);
+
+  useEffect(() => {
+    setAllowance(null);
+    setUsdcBalance(null);
+    refresh();
+  }, [refresh]);
+
+  // Every tag payment draws the allowance down, re-read it when one lands
+  useEffect(() => {
+    if (!walletAddress) return;
+    return haloPayment.watchPayments(walletAddress, refresh);
+  }, [haloPayment, walletAddress, refresh]);
+
+  const amount = parseUsdcAmount(amountInput);
+
+  const getNewAllowance = (action: AllowanceAction) => {
+    if (action === "reset") return BigInt(0);
+    if (amount === null) return null;
+    if (action === "set") return amount;
+    // Topping up an unlimited allowance would overflow
+    if (allowance === null || allowance === maxUint256) return null;
+    return allowance + amount;
+  };
+
+  const updateAllowance = async (action: AllowanceAction) => {
+    const newAllowance = getNewAllowance(action);
+    if (!wallet || newAllowance === null) return;
+    setIsBusy(true);
+    setError("");
+    try {
+      const { client } = await createWalletHaloPaymentClient(
+        wallet,
+        deployment,
+        publicClient
+      );
+      setStatus(
+        `Confirm the new allowance of ${formatUsdc(
+          newAllowance
+        )} USDC in your wallet...`
+      );
+      const hash = await client.setAllowance(newAllowance, {
+        usdc: deployment.usdc,
+      });
+      setStatus("Waiting for the allowance to be confirmed...");
+      await client.waitForTransaction(hash);
+      setAmountInput("");
+      await refresh();
+      setStatus(`✅ Allowance set to ${formatUsdc(newAllowance)} USDC.`);
+    } catch (err) {
+      setError(describeHaloPaymentError(err, "Updating the allowance failed"));
+      setStatus("");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!wallet) return null;
+
+  const button =
+    "flex-1 p-2 disabled:bg-gray-400 text-white text-sm font-semibold rounded-lg transition-colors";
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg mb-6">
+      <h3 className="font-semibold text-gray-800 mb-2">💳 Spending Cap</h3>
+
+      <div className="text-sm text-gray-700 space-y-1 mb-3">
+        <div>
+          <strong>Remaining allowance:</strong>{" "}
+          {allowance === null ? "..." : formatAllowance(allowance)}
+        </div>
+        <div>
+          <strong>Wallet balance:</strong>{" "}
+          {usdcBalance === null ? "..." : `${formatUsdc(usdcBalance)} USDC`}
+        </div>
+        <p className="text-xs text-gray-500">
+          Tag payments on {deployment.chain.name} can never take more than the
+          allowance. It goes down with every payment.
+        </p>
+      </div>
+
+      <input
+        type="text"
+        inputMode="decimal"
+        placeholder="Amount in USDC"
+        value={amountInput}
+        onChange={(e) => setAmountInput(e.target.value)}
+        disabled={disabled || isBusy}
+        className="w-full p-2 mb-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => updateAllowance("set")}
+          disabled={disabled || isBusy || getNewAllowance("set") === null}
+          className={`${button} bg-indigo-600 hover:bg-indigo-700`}
+        >
+          Set cap
+        </button>
+        <button
+          onClick={() => updateAllowance("topUp")}
+          disabled={disabled || isBusy || getNewAllowance("topUp") === null}
+          className={`${button} bg-green-600 hover:bg-green-700`}
+        >
+          Top up
+        </button>
+        <button
+          onClick={() => updateAllowance("reset")}
+          disabled={disabled || isBusy || !allowance}
+          className={`${button} bg-red-600 hover:bg-red-700`}
+        >
+          Reset to 0
+        </button>
+      </div>
+      {amount !== null && allowance !== null && allowance !== maxUint256 && (
+        <p className="mt-2 text-xs text-gray-500">
+          Set cap replaces the allowance with {formatUsdc(amount)} USDC, top up
+          raises it to {formatUsdc(allowance + amount)} USDC.
+        </p>
+      )}
+
+      {status && <p className="mt-3 text-sm text-gray-700">{status}</p>}
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
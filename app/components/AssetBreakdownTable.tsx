@@ -0,0 +1,73 @@
+"use client";
+
+import { formatFiat, formatShare, type ChainBreakdownRow } from "../lib/nexus";
+
+interface AssetBreakdownTableProps {
+  symbol: string;
+  rows: ChainBreakdownRow[];
+}
+
+// Where one asset's unified balance sits, chain by chain
+export default function AssetBreakdownTable({
+  symbol,
+  rows,
+}: AssetBreakdownTableProps) {
+  if (rows.length === 0) {
+    return (
+      <p className="px-3 pb-3 text-sm text-gray-600 dark:text-gray-400">
+        No {symbol} on any chain above the dust threshold.
+      </p>
+    );
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-left text-gray-500 dark:text-gray-400">
+        <tr>
+          <th className="px-3 py-2 font-medium">Chain</th>
+          <th className="px-3 py-2 font-medium text-right">Balance</th>
+          <th className="px-3 py-2 font-medium text-right">Value</th>
+          <th className="px-3 py-2 font-medium text-right">% of total</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200 dark:divide-gray-600 text-gray-900 dark:text-white">
+        {rows.map((row) => (
+          <tr key={row.chainId}>
+            <td className="px-3 py-2">
+              <div className="flex items-center gap-2">
+                {row.logoUrl && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={row.logoUrl}
+                    alt=""
+                    width={16}
+                    height={16}
+                    className="rounded-full"
+                  />
+                )}
+                {row.chainName}
+              </div>
+            </td>
+            <td className="px-3 py-2 text-right font-mono">
+              {row.balance} {symbol}
+            </td>
+            <td className="px-3 py-2 text-right">
+              {typeof row.fiat === "number" ? formatFiat(row.fiat) : "–"}
+            </td>
+            <td className="px-3 py-2 text-right">
+              <div className="flex items-center justify-end gap-2">
+                <div className="h-1.5 w-16 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600"
+                    style={{ width: `${row.share}%` }}
+                  />
+                </div>
+                {formatShare(row.share)}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -2,96 +2,81 @@
 
 import { useState, useEffect } from "react";
 import { usePrivy } from "@privy-io/react-auth";
-import { useNexus } from "@avail-project/nexus";
 import type {
   BridgeParams,
   BridgeResult,
   SimulationResult,
-  UserAsset,
 } from "@avail-project/nexus";
-
-// Testnet chains supported by Nexus
-const SUPPORTED_CHAINS = [
-  { id: 11155420, name: "Optimism Sepolia", symbol: "ETH" },
-  { id: 80002, name: "Polygon Amoy", symbol: "MATIC" },
-  { id: 421614, name: "Arbitrum Sepolia", symbol: "ETH" },
-  { id: 84532, name: "Base Sepolia", symbol: "ETH" },
-];
-
-const BRIDGE_TOKEN = "USDC";
+import NexusStatusBanner from "./NexusStatusBanner";
+import ChainLogo from "./ChainLogo";
+import RealFundsConfirmation from "./RealFundsConfirmation";
+import TokenSelector from "./TokenSelector";
+import { useNexusStatus, useUnifiedBalances } from "./NexusSessionProvider";
+import { useNetwork } from "./NetworkProvider";
+import { useNexus } from "./NexusProvider";
+import {
+  DEFAULT_TOKEN,
+  getAmountStep,
+  getTokenOptions,
+  hasTokenBalance,
+  isTokenSupportedOnChain,
+  toTokenAmount,
+  validateTokenAmount,
+} from "../lib/nexus";
+import type { ChainInfo } from "../lib/chains";
 
 export default function BridgeInterface() {
   const { authenticated } = usePrivy();
-  const { sdk } = useNexus();
+  const { sdk, support } = useNexus();
+  const { chains, isMainnet } = useNetwork();
 
-  const [balances, setBalances] = useState<UserAsset[]>([]);
+  const { isReady: isInitialized } = useNexusStatus();
+  const { balances, invalidate: invalidateBalances } = useUnifiedBalances();
+  const [token, setToken] = useState<string>(DEFAULT_TOKEN);
   const [amount, setAmount] = useState<string>("");
-  const [destinationChain, setDestinationChain] = useState<number>(11155420); // Default to Optimism Sepolia
+  // The page remounts the form on a network switch, so the first chain is
+  // always valid
+  const [destinationChain, setDestinationChain] = useState<number>(
+    chains[0].id
+  );
   const [simulation, setSimulation] = useState<SimulationResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [bridging, setBridging] = useState(false);
   const [error, setError] = useState<string>("");
   const [bridgeResult, setBridgeResult] = useState<BridgeResult | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
-
-  const checkInitialization = async () => {
-    if (!sdk) return false;
-
-    try {
-      // Try to call a method that would fail if not initialized
-      await sdk.getUnifiedBalances();
-      return true;
-    } catch (error) {
-      if (
-        error instanceof Error &&
-        error.message.includes("CA not initialized")
-      ) {
-        return false;
-      }
-      // If it's a different error, assume it's initialized but there's another issue
-      return true;
+  const [confirmingMainnet, setConfirmingMainnet] = useState(false);
+
+  const tokenOptions = getTokenOptions(balances, support);
+  const selectedToken =
+    tokenOptions.find((option) => option.symbol === token) ?? tokenOptions[0];
+  const amountError = validateTokenAmount(amount, selectedToken);
+  // What the SDK is sent, exact at the token's precision
+  const sdkAmount = amountError
+    ? null
+    : toTokenAmount(amount, selectedToken.decimals);
+  const isChainSupported = (chain: ChainInfo) =>
+    isTokenSupportedOnChain(selectedToken, chain, support);
+  const destination = chains.find((c) => c.id === destinationChain);
+
+  // Amounts are per token, and the destination must accept the new token
+  const selectToken = (symbol: string) => {
+    const next = tokenOptions.find((option) => option.symbol === symbol);
+    if (!next) return;
+    setToken(symbol);
+    setAmount("");
+    setSimulation(null);
+    if (destination && !isTokenSupportedOnChain(next, destination, support)) {
+      const supported = chains.find((chain) =>
+        isTokenSupportedOnChain(next, chain, support)
+      );
+      if (supported) setDestinationChain(supported.id);
     }
   };
 
-  // Check if SDK is initialized
-  useEffect(() => {
-    const checkInit = async () => {
-      if (sdk) {
-        const initialized = await checkInitialization();
-        setIsInitialized(initialized);
-      }
-    };
-
-    checkInit();
-
-    // Check periodically until initialized
-    const interval = setInterval(checkInit, 1000);
-
-    return () => clearInterval(interval);
-  }, [sdk]);
-
-  // Fetch balances when SDK becomes initialized
-  useEffect(() => {
-    const fetchBalances = async () => {
-      if (!authenticated || !sdk || !isInitialized) return;
-
-      try {
-        const unifiedBalances = await sdk.getUnifiedBalances();
-        setBalances(unifiedBalances);
-      } catch (error) {
-        console.error("Failed to fetch balances:", error);
-      }
-    };
-
-    if (isInitialized) {
-      fetchBalances();
-    }
-  }, [authenticated, sdk, isInitialized]);
-
   // Simulate bridge when parameters change
   useEffect(() => {
     const simulateBridge = async () => {
-      if (!sdk || !isInitialized || !amount || parseFloat(amount) <= 0) {
+      if (!sdk || !isInitialized || !sdkAmount) {
         setSimulation(null);
         return;
       }
@@ -101,8 +86,8 @@ export default function BridgeInterface() {
 
       try {
         const result = await sdk.simulateBridge({
-          token: BRIDGE_TOKEN,
-          amount: parseFloat(amount),
+          token: token as BridgeParams["token"],
+          amount: sdkAmount,
           chainId: destinationChain as any, // Type assertion to avoid chain ID type issues
         });
         setSimulation(result);
@@ -118,10 +103,11 @@ export default function BridgeInterface() {
     // Debounce simulation calls
     const timer = setTimeout(simulateBridge, 500);
     return () => clearTimeout(timer);
-  }, [sdk, isInitialized, amount, destinationChain]);
+  }, [sdk, isInitialized, token, sdkAmount, destinationChain]);
 
   const handleBridge = async () => {
-    if (!sdk || !amount || parseFloat(amount) <= 0) return;
+    setConfirmingMainnet(false);
+    if (!sdk || !sdkAmount) return;
 
     setBridging(true);
     setError("");
@@ -129,8 +115,8 @@ export default function BridgeInterface() {
 
     try {
       const result: BridgeResult = await sdk.bridge({
-        token: BRIDGE_TOKEN,
-        amount: parseFloat(amount),
+        token: token as BridgeParams["token"],
+        amount: sdkAmount,
         chainId: destinationChain as any, // Type assertion to avoid chain ID type issues
       } as BridgeParams);
 
@@ -146,9 +132,8 @@ export default function BridgeInterface() {
         setAmount("");
         setSimulation(null);
 
-        // Refresh balances
-        const updatedBalances = await sdk.getUnifiedBalances();
-        setBalances(updatedBalances);
+        // Balances moved, refetch them for every Nexus view
+        invalidateBalances();
       } else {
         console.error("❌ Bridge failed:", result.error);
         setError(result.error || "Bridge operation failed");
@@ -163,8 +148,10 @@ export default function BridgeInterface() {
     }
   };
 
-  const usdcBalance = balances.find((b) => b.symbol === BRIDGE_TOKEN);
-  const maxAmount = usdcBalance ? parseFloat(usdcBalance.balance) : 0;
+  const hasBalance = hasTokenBalance(
+    selectedToken.balance,
+    selectedToken.decimals
+  );
 
   if (!authenticated) {
     return (
@@ -177,42 +164,25 @@ export default function BridgeInterface() {
   }
 
   if (!isInitialized) {
-    return (
-      <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-        <div className="flex items-center space-x-2">
-          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-          <p className="text-blue-800 dark:text-blue-200">
-            🔄 Initializing Nexus SDK... Please sign the transaction in your
-            wallet if prompted.
-          </p>
-        </div>
-      </div>
-    );
+    return <NexusStatusBanner />;
   }
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-6">
       <div className="flex items-center mb-6">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-          🌉 USDC Cross-Chain Bridge
+          🌉 Cross-Chain Bridge
         </h2>
       </div>
 
       <div className="space-y-4">
-        {/* Token Display */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Token
-          </label>
-          <div className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white">
-            <div className="flex items-center justify-between">
-              <span className="font-medium">USDC</span>
-              <span className="text-sm text-gray-500 dark:text-gray-400">
-                Balance: {usdcBalance?.balance || "0.00"} USDC
-              </span>
-            </div>
-          </div>
-        </div>
+        {/* Token Selector */}
+        <TokenSelector
+          options={tokenOptions}
+          value={selectedToken.symbol}
+          onChange={selectToken}
+          disabled={bridging}
+        />
 
         {/* Amount Input */}
         <div>
@@ -225,22 +195,26 @@ export default function BridgeInterface() {
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               placeholder="0.00"
-              step="0.000001"
+              step={getAmountStep(selectedToken.decimals)}
               min="0"
-              max={maxAmount}
+              max={selectedToken.balance}
               className="w-full p-3 pr-16 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
             <button
-              onClick={() => setAmount(maxAmount.toString())}
-              disabled={maxAmount <= 0}
+              onClick={() => setAmount(selectedToken.balance)}
+              disabled={!hasBalance}
               className="absolute right-2 top-1/2 transform -translate-y-1/2 text-blue-600 hover:text-blue-800 disabled:text-gray-400 text-sm font-medium"
             >
               MAX
             </button>
           </div>
-          {usdcBalance && (
+          {amountError ? (
+            <p className="text-sm text-red-600 dark:text-red-400 mt-1">
+              {amountError}
+            </p>
+          ) : (
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              Available: {usdcBalance.balance} USDC
+              Available: {selectedToken.balance} {token}
             </p>
           )}
         </div>
@@ -255,9 +229,15 @@ export default function BridgeInterface() {
             onChange={(e) => setDestinationChain(parseInt(e.target.value))}
             className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            {SUPPORTED_CHAINS.map((chain) => (
-              <option key={chain.id} value={chain.id}>
-                {chain.name} ({chain.symbol})
+            {chains.map((chain) => (
+              <option
+                key={chain.id}
+                value={chain.id}
+                disabled={!isChainSupported(chain)}
+              >
+                {`${chain.name} (${chain.nativeCurrency.symbol})${
+                  isChainSupported(chain) ? "" : ` – no ${token}`
+                }`}
               </option>
             ))}
           </select>
@@ -283,7 +263,7 @@ export default function BridgeInterface() {
             <div className="space-y-1 text-sm text-green-700 dark:text-green-300">
               <p>
                 Amount to receive: {(simulation as any).amountOut || amount}{" "}
-                USDC
+                {token}
               </p>
               {(simulation as any).estimatedGas && (
                 <p>Estimated gas: {(simulation as any).estimatedGas}</p>
@@ -328,12 +308,8 @@ export default function BridgeInterface() {
               {bridgeResult.success ? (
                 <>
                   <p>
-                    Your USDC has been successfully bridged to{" "}
-                    {
-                      SUPPORTED_CHAINS.find((c) => c.id === destinationChain)
-                        ?.name
-                    }
-                    !
+                    Your {token} has been successfully bridged to{" "}
+                    {chains.find((c) => c.id === destinationChain)?.name}!
                   </p>
                   {bridgeResult.explorerUrl && (
                     <div className="mt-2">
@@ -379,50 +355,58 @@ export default function BridgeInterface() {
         )}
 
         {/* Bridge Button */}
-        <button
-          onClick={handleBridge}
-          disabled={
-            !amount ||
-            parseFloat(amount) <= 0 ||
-            parseFloat(amount) > maxAmount ||
-            bridging ||
-            loading ||
-            maxAmount <= 0
-          }
-          className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors"
-        >
-          {bridging ? (
-            <div className="flex items-center justify-center space-x-2">
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-              <span>Bridging...</span>
-            </div>
-          ) : (
-            `Bridge ${amount || "0"} USDC to ${
-              SUPPORTED_CHAINS.find((c) => c.id === destinationChain)?.name ||
-              "Chain"
-            }`
-          )}
-        </button>
+        {confirmingMainnet ? (
+          <RealFundsConfirmation
+            summary={`Bridge ${amount} ${token} to ${destination?.name}`}
+            onConfirm={handleBridge}
+            onCancel={() => setConfirmingMainnet(false)}
+          />
+        ) : (
+          <button
+            onClick={() =>
+              isMainnet ? setConfirmingMainnet(true) : handleBridge()
+            }
+            disabled={
+              !amount ||
+              !!amountError ||
+              !destination ||
+              !isChainSupported(destination) ||
+              bridging ||
+              loading
+            }
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors"
+          >
+            {bridging ? (
+              <div className="flex items-center justify-center space-x-2">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                <span>Bridging...</span>
+              </div>
+            ) : (
+              `Bridge ${amount || "0"} ${token} to ${destination?.name || "Chain"}`
+            )}
+          </button>
+        )}
       </div>
 
       {/* Info Section */}
       <div className="mt-6 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
         <p className="text-blue-800 dark:text-blue-200 text-sm">
-          💡 <strong>Testnet Bridge:</strong> Nexus automatically selects the
-          best route from your available USDC balances across all testnet
-          chains. You only need to specify the destination chain and amount.
+          💡 <strong>{isMainnet ? "Mainnet" : "Testnet"} Bridge:</strong> Nexus
+          automatically selects the best route from your available {token}{" "}
+          balances across all {isMainnet ? "mainnet" : "testnet"} chains. You
+          only need to specify the destination chain and amount.
         </p>
       </div>
 
       {/* Supported Chains Info */}
       <div className="mt-4 bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
         <h4 className="font-medium text-gray-900 dark:text-white mb-2">
-          🔗 Supported Testnet Chains
+          🔗 Supported {isMainnet ? "Mainnet" : "Testnet"} Chains
         </h4>
         <div className="grid grid-cols-2 gap-2 text-sm text-gray-600 dark:text-gray-400">
-          {SUPPORTED_CHAINS.map((chain) => (
+          {chains.map((chain) => (
             <div key={chain.id} className="flex items-center space-x-2">
-              <span className="text-green-500">✅</span>
+              <ChainLogo chain={chain} />
               <span>{chain.name}</span>
             </div>
           ))}
@@ -0,0 +1,21 @@
+"use client";
+
+import type { ChainInfo } from "../lib/chains";
+
+interface ChainLogoProps {
+  chain: ChainInfo;
+  size?: number;
+}
+
+export default function ChainLogo({ chain, size = 20 }: ChainLogoProps) {
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={chain.logoUrl}
+      alt={`${chain.name} logo`}
+      width={size}
+      height={size}
+      className="rounded-full"
+    />
+  );
+}
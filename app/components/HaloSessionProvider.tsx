@@ -0,0 +1,127 @@
+"use client";
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { usePrivy } from "@privy-io/react-auth";
+import {
+  fetchHaloSession,
+  signInWithHalo,
+  signOutHalo,
+} from "../lib/halo-auth/client";
+import {
+  HALO_SESSION_FEATURES,
+  type HaloSession,
+  type ScannerFeature,
+} from "../lib/halo-auth/types";
+import { DEFAULT_CHAIN_ID } from "../lib/halo-payment";
+
+interface HaloSessionContextValue {
+  session: HaloSession | null;
+  ready: boolean;
+  // True while the tablet is signed in by tap only, without a Privy login
+  isHaloOnly: boolean;
+  isSigningIn: boolean;
+  signInStatus: string;
+  error: string;
+  // Chain picked on the scanner, which sign-in resolves the payer on
+  chainId: number;
+  setChainId: (chainId: number) => void;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+  can: (feature: ScannerFeature) => boolean;
+}
+
+const HaloSessionContext = createContext<HaloSessionContextValue | null>(null);
+
+interface HaloSessionProviderProps {
+  children: ReactNode;
+}
+
+export default function HaloSessionProvider({
+  children,
+}: HaloSessionProviderProps) {
+  const { authenticated } = usePrivy();
+  const [session, setSession] = useState<HaloSession | null>(null);
+  const [ready, setReady] = useState<boolean>(false);
+  const [isSigningIn, setIsSigningIn] = useState<boolean>(false);
+  const [signInStatus, setSignInStatus] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [chainId, setChainId] = useState<number>(DEFAULT_CHAIN_ID);
+
+  useEffect(() => {
+    fetchHaloSession().then((current) => {
+      setSession(current);
+      setReady(true);
+    });
+  }, []);
+
+  // The cookie expires on its own, drop the session in the UI at the same time
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(
+      () => setSession(null),
+      Math.max(session.expiresAt - Date.now(), 0)
+    );
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const signIn = useCallback(async () => {
+    setIsSigningIn(true);
+    setError("");
+    try {
+      setSession(await signInWithHalo(chainId, setSignInStatus));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in with HaLo failed");
+    } finally {
+      setIsSigningIn(false);
+      setSignInStatus("");
+    }
+  }, [chainId]);
+
+  const signOut = useCallback(async () => {
+    await signOutHalo();
+    setSession(null);
+  }, []);
+
+  const isHaloOnly = !!session && !authenticated;
+  const can = useCallback(
+    (feature: ScannerFeature) =>
+      !isHaloOnly || HALO_SESSION_FEATURES.includes(feature),
+    [isHaloOnly]
+  );
+
+  return (
+    <HaloSessionContext.Provider
+      value={{
+        session,
+        ready,
+        isHaloOnly,
+        isSigningIn,
+        signInStatus,
+        error,
+        chainId,
+        setChainId,
+        signIn,
+        signOut,
+        can,
+      }}
+    >
+      {children}
+    </HaloSessionContext.Provider>
+  );
+}
+
+/** HaLo tap session, the counterpart of `usePrivy` for shared tablets. */
+export function useHaloSession() {
+  const context = useContext(HaloSessionContext);
+  if (!context) {
+    throw new Error("useHaloSession must be used within HaloSessionProvider");
+  }
+  return context;
+}
@@ -1,9 +1,14 @@
 "use client";
 
 import { usePrivy } from "@privy-io/react-auth";
+import { useHaloSession } from "./HaloSessionProvider";
+import { useNetwork } from "./NetworkProvider";
+import NetworkSelector from "./NetworkSelector";
 
 export default function Header() {
   const { ready, authenticated, user, login, logout } = usePrivy();
+  const haloSession = useHaloSession();
+  const { isMainnet } = useNetwork();
 
   return (
     <header className="w-full bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
@@ -16,6 +21,7 @@ export default function Header() {
           </div>
 
           <div className="flex items-center space-x-4">
+            <NetworkSelector />
             {ready && (
               <>
                 {authenticated ? (
@@ -33,19 +39,56 @@ export default function Header() {
                       Disconnect
                     </button>
                   </div>
+                ) : haloSession.session ? (
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm text-gray-700 dark:text-gray-300">
+                      🏷️ Signed in via HaLo ·{" "}
+                      {haloSession.session.payer.slice(0, 6) +
+                        "..." +
+                        haloSession.session.payer.slice(-4)}
+                    </span>
+                    <button
+                      onClick={haloSession.signOut}
+                      className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      Sign out
+                    </button>
+                  </div>
                 ) : (
-                  <button
-                    onClick={login}
-                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
-                  >
-                    Connect Wallet
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    {haloSession.error && (
+                      <span className="text-sm text-red-600">
+                        {haloSession.error}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => haloSession.signIn()}
+                      disabled={!haloSession.ready || haloSession.isSigningIn}
+                      title={haloSession.signInStatus}
+                      className="bg-gray-800 hover:bg-gray-900 disabled:bg-gray-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      {haloSession.isSigningIn
+                        ? haloSession.signInStatus || "Signing in..."
+                        : "🏷️ Sign in with HaLo"}
+                    </button>
+                    <button
+                      onClick={login}
+                      className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                    >
+                      Connect Wallet
+                    </button>
+                  </div>
                 )}
               </>
             )}
           </div>
         </div>
       </div>
+      {isMainnet && (
+        <div className="w-full bg-red-600 text-white text-sm text-center py-1">
+          ⚠️ Mainnet: bridges and transfers move real funds
+        </div>
+      )}
     </header>
   );
 }
@@ -0,0 +1,289 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { isAddressEqual, type Address } from "viem";
+import { useWallets } from "@privy-io/react-auth";
+import { execHaloCmd } from "../lib/halo";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  describeHaloPaymentError,
+  getDeployment,
+} from "../lib/halo-payment";
+import { createWalletHaloPaymentClient, getPrivyWallet } from "../lib/wallet";
+
+interface MyHaloTagProps {
+  chainId: number;
+  disabled?: boolean;
+  // Called after the tag registration changed on-chain
+  onChange?: () => void;
+}
+
+type TagView = "overview" | "confirm-revoke" | "replace";
+
+export default function MyHaloTag({
+  chainId,
+  disabled = false,
+  onChange,
+}: MyHaloTagProps) {
+  const { wallets } = useWallets();
+  const wallet = getPrivyWallet(wallets);
+  const walletAddress = wallet?.address as Address | undefined;
+
+  const [view, setView] = useState<TagView>("overview");
+  const [authorizedHalo, setAuthorizedHalo] = useState<Address | null>(null);
+  const [allowance, setAllowance] = useState<bigint>(BigInt(0));
+  const [resetAllowance, setResetAllowance] = useState<boolean>(false);
+  const [newTagAddresses, setNewTagAddresses] = useState<
+    { key: string; address: Address }[]
+  >([]);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const deployment = getDeployment(chainId);
+
+  const refresh = useCallback(async () => {
+    if (!walletAddress) return;
+    try {
+      const haloPayment = createHaloPaymentClient({
+        address: deployment.haloPayment,
+        publicClient: createDeploymentPublicClient(deployment),
+      });
+      const [halo, currentAllowance] = await Promise.all([
+        haloPayment.getAuthorizedHaloAddress(walletAddress),
+        haloPayment.getAllowance(walletAddress, deployment.usdc),
+      ]);
+      setAuthorizedHalo(halo);
+      setAllowance(currentAllowance);
+    } catch (err) {
+      console.error("Failed to load HaLo tag:", err);
+      setError(err instanceof Error ? err.message : "Failed to load HaLo tag");
+    }
+  }, [walletAddress, deployment]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runTransaction = async (
+    action: (
+      clients: Awaited<ReturnType<typeof createWalletHaloPaymentClient>>
+    ) => Promise<void>
+  ) => {
+    if (!wallet) {
+      setError("No wallet connected. Please connect your wallet first.");
+      return;
+    }
+    setIsBusy(true);
+    setError("");
+    try {
+      const clients = await createWalletHaloPaymentClient(
+        wallet,
+        deployment,
+        createDeploymentPublicClient(deployment)
+      );
+      await action(clients);
+      setView("overview");
+      setNewTagAddresses([]);
+      await refresh();
+      onChange?.();
+    } catch (err) {
+      setError(describeHaloPaymentError(err, "Transaction failed"));
+      setStatus("");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const revokeTag = () =>
+    runTransaction(async ({ client }) => {
+      setStatus("Revoking HaLo tag...");
+      const revokeHash = await client.revokeHaloAddress();
+      await client.waitForTransaction(revokeHash);
+
+      if (resetAllowance && allowance > BigInt(0)) {
+        setStatus("Tag revoked. Resetting USDC allowance to zero...");
+        const approveHash = await client.setAllowance(BigInt(0), {
+          usdc: deployment.usdc,
+        });
+        await client.waitForTransaction(approveHash);
+      }
+      setStatus(
+        "✅ HaLo tag revoked. It can no longer authorize payments from your wallet."
+      );
+    });
+
+  const scanNewTag = async () => {
+    setIsBusy(true);
+    setError("");
+    setStatus("Hold your new HaLo tag near the device...");
+    try {
+      const result = await execHaloCmd({ name: "get_pkeys" });
+      const entries = Object.entries(result.etherAddresses).map(
+        ([key, address]) => ({ key, address })
+      );
+      if (!entries.length) {
+        throw new Error("No addresses found on HaLo tag");
+      }
+      setNewTagAddresses(entries);
+      setStatus("Choose the key on the new tag to register.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read HaLo tag");
+      setStatus("");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const registerNewTag = (haloAddress: Address) =>
+    runTransaction(async ({ client }) => {
+      if (!walletAddress) return;
+      const owner = await client.getPayerFromHaloAddress(haloAddress);
+      if (owner && !isAddressEqual(owner, walletAddress)) {
+        throw new Error(
+          "This HaLo key is already registered to another wallet. Use a different key or tag."
+        );
+      }
+      setStatus("Registering new HaLo tag...");
+      const hash = await client.registerHaloAddress(haloAddress);
+      await client.waitForTransaction(hash);
+      setStatus(
+        "✅ New HaLo tag registered. Your previous tag no longer works."
+      );
+    });
+
+  if (!wallet) return null;
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg mb-6">
+      <h3 className="font-semibold text-gray-800 mb-2">🏷️ My HaLo Tag</h3>
+
+      <div className="text-sm text-gray-700 space-y-1 mb-3">
+        <div>
+          <strong>Authorized tag:</strong>{" "}
+          {authorizedHalo ? (
+            <span className="font-mono">{authorizedHalo}</span>
+          ) : (
+            <span className="text-gray-500">None registered</span>
+          )}
+        </div>
+      </div>
+
+      {view === "overview" && (
+        <div className="flex gap-2">
+          {authorizedHalo && (
+            <button
+              onClick={() => setView("confirm-revoke")}
+              disabled={disabled || isBusy}
+              className="flex-1 p-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              Revoke tag
+            </button>
+          )}
+          <button
+            onClick={() => setView("replace")}
+            disabled={disabled || isBusy}
+            className="flex-1 p-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            {authorizedHalo ? "Replace with new tag" : "Register a tag"}
+          </button>
+        </div>
+      )}
+
+      {view === "confirm-revoke" && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800 mb-2">
+            Lost your tag? Revoking takes effect as soon as the transaction is
+            mined. Nobody will be able to pay with it afterwards.
+          </p>
+          {allowance > BigInt(0) && (
+            <label className="flex items-center space-x-2 text-sm text-red-800 mb-3">
+              <input
+                type="checkbox"
+                checked={resetAllowance}
+                onChange={(e) => setResetAllowance(e.target.checked)}
+              />
+              <span>Also reset my USDC allowance to 0 (second transaction)</span>
+            </label>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => setView("overview")}
+              disabled={isBusy}
+              className="flex-1 p-2 bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-semibold rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={revokeTag}
+              disabled={isBusy}
+              className="flex-1 p-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-sm font-semibold rounded-lg"
+            >
+              {isBusy ? "Revoking..." : "Revoke now"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {view === "replace" && (
+        <div className="p-3 bg-indigo-50 border border-indigo-200 rounded-lg">
+          <ol className="text-sm text-indigo-900 list-decimal list-inside space-y-1 mb-3">
+            <li>Tap the new HaLo tag to read its keys.</li>
+            <li>Pick the key that should authorize your payments.</li>
+            <li>
+              Confirm the registration in your wallet.
+              {authorizedHalo && " Your current tag stops working at once."}
+            </li>
+          </ol>
+          {newTagAddresses.length === 0 ? (
+            <button
+              onClick={scanNewTag}
+              disabled={isBusy}
+              className="w-full p-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white text-sm font-semibold rounded-lg mb-2"
+            >
+              {isBusy ? "Scanning..." : "Scan new tag"}
+            </button>
+          ) : (
+            <ul className="space-y-2 mb-2">
+              {newTagAddresses.map(({ key, address }) => (
+                <li
+                  key={key}
+                  className="flex items-center justify-between p-2 bg-white rounded-lg text-sm"
+                >
+                  <span className="font-mono text-xs">
+                    Key {key}: {address}
+                  </span>
+                  <button
+                    onClick={() => registerNewTag(address)}
+                    disabled={
+                      isBusy ||
+                      (!!authorizedHalo &&
+                        isAddressEqual(authorizedHalo, address))
+                    }
+                    className="ml-2 px-3 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white font-semibold rounded-lg"
+                  >
+                    Register
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={() => {
+              setView("overview");
+              setNewTagAddresses([]);
+            }}
+            disabled={isBusy}
+            className="w-full p-2 bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-semibold rounded-lg"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {status && <p className="text-sm text-gray-700 mt-3">{status}</p>}
+      {error && <p className="text-sm text-red-700 mt-3">❌ {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { usePrivy } from "@privy-io/react-auth";
+import {
+  DEFAULT_NEXUS_NETWORK,
+  loadNexusNetwork,
+  saveNexusNetwork,
+  type NexusNetwork,
+} from "../lib/nexus";
+import { getNexusChains, type ChainInfo } from "../lib/chains";
+
+interface NetworkContextValue {
+  network: NexusNetwork;
+  // False until the user's saved choice has been read; `network` is the
+  // default until then, and no SDK is created for it
+  isResolved: boolean;
+  isMainnet: boolean;
+  // Chains the bridge and transfer forms offer on this network
+  chains: ChainInfo[];
+  setNetwork: (network: NexusNetwork) => void;
+}
+
+const NetworkContext = createContext<NetworkContextValue | null>(null);
+
+interface NetworkProviderProps {
+  children: ReactNode;
+}
+
+export default function NetworkProvider({ children }: NetworkProviderProps) {
+  const { ready, user } = usePrivy();
+  const userId = user?.id;
+  const [network, setNetworkState] = useState<NexusNetwork | null>(null);
+
+  // Each user gets back the network they used last. Privy must be ready
+  // first, so the SDK is not started on the default network and replaced.
+  useEffect(() => {
+    if (ready) setNetworkState(loadNexusNetwork(userId));
+  }, [ready, userId]);
+
+  const setNetwork = useCallback(
+    (next: NexusNetwork) => {
+      saveNexusNetwork(next, userId);
+      setNetworkState(next);
+    },
+    [userId]
+  );
+
+  return (
+    <NetworkContext.Provider
+      value={{
+        network: network ?? DEFAULT_NEXUS_NETWORK,
+        isResolved: network !== null,
+        isMainnet: network === "mainnet",
+        chains: getNexusChains(network ?? DEFAULT_NEXUS_NETWORK),
+        setNetwork,
+      }}
+    >
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+/** Nexus network the app runs on, switchable at runtime from the header. */
+export function useNetwork() {
+  const context = useContext(NetworkContext);
+  if (!context) {
+    throw new Error("useNetwork must be used within NetworkProvider");
+  }
+  return context;
+}
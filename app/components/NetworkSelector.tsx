@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import { NEXUS_NETWORKS, type NexusNetwork } from "../lib/nexus";
+import { useNetwork } from "./NetworkProvider";
+
+export default function NetworkSelector() {
+  const { network, isResolved, setNetwork } = useNetwork();
+  const [confirmingMainnet, setConfirmingMainnet] = useState<boolean>(false);
+
+  const switchTo = (next: NexusNetwork) => {
+    setConfirmingMainnet(false);
+    if (next !== network) setNetwork(next);
+  };
+
+  const select = (next: NexusNetwork) => {
+    if (next === "mainnet" && network !== "mainnet") {
+      setConfirmingMainnet(true);
+      return;
+    }
+    switchTo(next);
+  };
+
+  return (
+    <div className="relative">
+      <select
+        value={network}
+        onChange={(e) => select(e.target.value as NexusNetwork)}
+        disabled={!isResolved}
+        className={`px-3 py-2 rounded-md text-sm font-medium border ${
+          network === "mainnet"
+            ? "bg-red-50 border-red-300 text-red-800"
+            : "bg-gray-50 border-gray-300 text-gray-800"
+        }`}
+      >
+        {NEXUS_NETWORKS.map(({ network: option, label }) => (
+          <option key={option} value={option}>
+            {option === "mainnet" ? `⚠️ ${label}` : `🧪 ${label}`}
+          </option>
+        ))}
+      </select>
+
+      {confirmingMainnet && (
+        <div className="absolute right-0 mt-2 w-72 p-3 bg-white border border-red-300 rounded-lg shadow-lg z-10">
+          <p className="text-sm text-red-800 mb-3">
+            ⚠️ Mainnet moves <strong>real funds</strong>. Bridges and transfers
+            cannot be undone. Nexus will ask your wallet to sign in again.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setConfirmingMainnet(false)}
+              className="flex-1 p-2 bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-semibold rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => switchTo("mainnet")}
+              className="flex-1 p-2 bg-red-600 hover:bg-red-700 text-white text-sm font-semibold rounded-md"
+            >
+              Switch to mainnet
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
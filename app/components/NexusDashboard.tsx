@@ -1,74 +1,57 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { usePrivy } from "@privy-io/react-auth";
-import { useNexus } from "@avail-project/nexus";
-import type { UserAsset } from "@avail-project/nexus";
+import AllocationChart from "./AllocationChart";
+import AssetBreakdownTable from "./AssetBreakdownTable";
+import NexusStatusBanner from "./NexusStatusBanner";
+import { useNexusStatus, useUnifiedBalances } from "./NexusSessionProvider";
+import { useNetwork } from "./NetworkProvider";
+import {
+  ASSET_SORT_OPTIONS,
+  DUST_THRESHOLD_USD,
+  filterAndSortAssets,
+  formatFiat,
+  getChainBreakdown,
+  getHeldChains,
+  type AssetSortKey,
+} from "../lib/nexus";
 
 export default function NexusDashboard() {
   const { authenticated } = usePrivy();
-  const { sdk } = useNexus();
-  const [balances, setBalances] = useState<UserAsset[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [isInitialized, setIsInitialized] = useState(false);
-
-  const checkInitialization = async () => {
-    if (!sdk) return false;
-
-    try {
-      // Try to call a method that would fail if not initialized
-      await sdk.getUnifiedBalances();
-      return true;
-    } catch (error) {
-      if (
-        error instanceof Error &&
-        error.message.includes("CA not initialized")
-      ) {
-        return false;
-      }
-      // If it's a different error, assume it's initialized but there's another issue
-      return true;
-    }
-  };
-
-  const fetchBalances = async () => {
-    if (!authenticated || !sdk || !isInitialized) return;
-
-    setLoading(true);
-    try {
-      const unifiedBalances = await sdk.getUnifiedBalances();
-      setBalances(unifiedBalances);
-      console.log("📊 Balances fetched:", unifiedBalances);
-    } catch (error) {
-      console.error("❌ Failed to fetch balances:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Check if SDK is initialized
-  useEffect(() => {
-    const checkInit = async () => {
-      if (sdk) {
-        const initialized = await checkInitialization();
-        setIsInitialized(initialized);
-      }
-    };
-
-    checkInit();
-
-    // Check periodically until initialized
-    const interval = setInterval(checkInit, 1000);
-
-    return () => clearInterval(interval);
-  }, [sdk]);
+  const { isMainnet } = useNetwork();
+  const { isReady: isInitialized } = useNexusStatus();
+  const {
+    balances,
+    error,
+    isLoading: loading,
+    isValidating,
+    refresh: fetchBalances,
+  } = useUnifiedBalances();
+  const [query, setQuery] = useState<string>("");
+  const [chainFilter, setChainFilter] = useState<number | null>(null);
+  const [sortKey, setSortKey] = useState<AssetSortKey>("value");
+  const [hideDust, setHideDust] = useState<boolean>(true);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const visibleAssets = filterAndSortAssets(
+    balances,
+    { query, chainId: chainFilter, hideDust },
+    sortKey
+  );
+  const heldChains = getHeldChains(balances, hideDust);
+  const totalFiat = balances.reduce(
+    (sum, asset) => sum + (asset.balanceInFiat ?? 0),
+    0
+  );
 
-  // Fetch balances when SDK becomes initialized
-  useEffect(() => {
-    if (isInitialized) {
-      fetchBalances();
-    }
-  }, [authenticated, sdk, isInitialized]);
+  const toggleExpanded = (symbol: string) =>
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(symbol)) next.delete(symbol);
+      else next.add(symbol);
+      return next;
+    });
 
   if (!authenticated) {
     return (
@@ -81,17 +64,7 @@ export default function NexusDashboard() {
   }
 
   if (!isInitialized) {
-    return (
-      <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-        <div className="flex items-center space-x-2">
-          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-          <p className="text-blue-800 dark:text-blue-200">
-            🔄 Initializing Nexus SDK... Please sign the transaction in your
-            wallet if prompted.
-          </p>
-        </div>
-      </div>
-    );
+    return <NexusStatusBanner />;
   }
 
   return (
@@ -104,13 +77,19 @@ export default function NexusDashboard() {
           </h2>
           <button
             onClick={fetchBalances}
-            disabled={loading}
+            disabled={isValidating}
             className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-3 py-1 rounded text-sm transition-colors"
           >
-            {loading ? "🔄 Loading..." : "🔄 Refresh"}
+            {isValidating ? "🔄 Loading..." : "🔄 Refresh"}
           </button>
         </div>
 
+        {error && (
+          <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+            ❌ Failed to fetch balances: {error}
+          </p>
+        )}
+
         {loading ? (
           <div className="text-center py-8">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
@@ -119,34 +98,110 @@ export default function NexusDashboard() {
             </p>
           </div>
         ) : balances.length > 0 ? (
-          <div className="space-y-3">
-            {balances.map((asset, index) => (
-              <div
-                key={index}
-                className="flex justify-between items-center p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+          <div className="space-y-4">
+            {totalFiat > 0 && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Total value:{" "}
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  {formatFiat(totalFiat)}
+                </span>
+              </p>
+            )}
+
+            <AllocationChart assets={balances} hideDust={hideDust} />
+
+            {/* Sort and filter controls */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search tokens"
+                className="flex-1 min-w-32 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <select
+                value={chainFilter ?? ""}
+                onChange={(e) =>
+                  setChainFilter(e.target.value ? Number(e.target.value) : null)
+                }
+                className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="">All chains</option>
+                {heldChains.map((chain) => (
+                  <option key={chain.id} value={chain.id}>
+                    {chain.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={sortKey}
+                onChange={(e) => setSortKey(e.target.value as AssetSortKey)}
+                className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
-                <div>
-                  <span className="font-medium text-gray-900 dark:text-white">
-                    {asset.symbol}
-                  </span>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    Balance: {asset.balance}
-                  </p>
-                  {asset.balanceInFiat && (
-                    <p className="text-sm text-green-600 dark:text-green-400">
-                      ≈ ${asset.balanceInFiat}
-                    </p>
-                  )}
-                </div>
-                {asset.breakdown && asset.breakdown.length > 1 && (
-                  <div className="text-right">
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      Across {asset.breakdown.length} chains
-                    </p>
+                {ASSET_SORT_OPTIONS.map((option) => (
+                  <option key={option.key} value={option.key}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={hideDust}
+                  onChange={(e) => setHideDust(e.target.checked)}
+                />
+                Hide balances under {formatFiat(DUST_THRESHOLD_USD)}
+              </label>
+            </div>
+
+            {visibleAssets.length === 0 && (
+              <p className="text-center py-4 text-sm text-gray-600 dark:text-gray-400">
+                No balances match these filters.
+              </p>
+            )}
+
+            <div className="space-y-3">
+              {visibleAssets.map((asset) => {
+                const rows = getChainBreakdown(asset, hideDust);
+                const isExpanded = expanded.has(asset.symbol);
+                return (
+                  <div
+                    key={asset.symbol}
+                    className="bg-gray-50 dark:bg-gray-700 rounded-lg"
+                  >
+                    <button
+                      onClick={() => toggleExpanded(asset.symbol)}
+                      className="w-full flex justify-between items-center p-3 text-left"
+                    >
+                      <div>
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          {asset.symbol}
+                        </span>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Balance: {asset.balance}
+                        </p>
+                        {asset.balanceInFiat > 0 && (
+                          <p className="text-sm text-green-600 dark:text-green-400">
+                            ≈ {formatFiat(asset.balanceInFiat)}
+                          </p>
+                        )}
+                      </div>
+                      <div className="text-right text-xs text-gray-500 dark:text-gray-400">
+                        <p>
+                          {rows.length === 1
+                            ? rows[0].chainName
+                            : `Across ${rows.length} chains`}
+                        </p>
+                        <p>{isExpanded ? "▲ Hide chains" : "▼ Show chains"}</p>
+                      </div>
+                    </button>
+                    {isExpanded && (
+                      <AssetBreakdownTable symbol={asset.symbol} rows={rows} />
+                    )}
                   </div>
-                )}
-              </div>
-            ))}
+                );
+              })}
+            </div>
           </div>
         ) : (
           <div className="text-center py-8">
@@ -158,12 +213,22 @@ export default function NexusDashboard() {
       </div>
 
       {/* Network Status */}
-      <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-        <p className="text-blue-800 dark:text-blue-200 text-sm">
-          🧪 <strong>Testnet Mode:</strong> You're connected to Avail Nexus
-          testnet. Use testnet tokens for safe experimentation.
-        </p>
-      </div>
+      {isMainnet ? (
+        <div className="bg-red-50 dark:bg-red-900/20 border-2 border-red-400 dark:border-red-700 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200 text-sm">
+            ⚠️ <strong>Mainnet Mode:</strong> You&apos;re connected to Avail
+            Nexus mainnet. Balances are real funds, and every bridge or transfer
+            spends them.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+          <p className="text-blue-800 dark:text-blue-200 text-sm">
+            🧪 <strong>Testnet Mode:</strong> You're connected to Avail Nexus
+            testnet. Use testnet tokens for safe experimentation.
+          </p>
+        </div>
+      )}
     </div>
   );
 }
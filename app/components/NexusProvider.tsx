@@ -1,22 +1,64 @@
 "use client";
 
-import { NexusProvider } from "@avail-project/nexus";
-import { ReactNode } from "react";
+import { NexusSDK } from "@avail-project/nexus";
+import {
+  createContext,
+  ReactNode,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { useNetwork } from "./NetworkProvider";
+import { getNexusSupport, type NexusSupport } from "../lib/nexus";
 
-interface NexusProviderWrapperProps {
+interface NexusContextValue {
+  // null until the network is known
+  sdk: NexusSDK | null;
+  // Tokens and destinations the SDK supports on the network
+  support: NexusSupport;
+}
+
+const NexusContext = createContext<NexusContextValue | null>(null);
+
+interface NexusProviderProps {
   children: ReactNode;
 }
 
-export default function NexusProviderWrapper({
-  children,
-}: NexusProviderWrapperProps) {
+export default function NexusProvider({ children }: NexusProviderProps) {
+  const { network, isResolved, chains } = useNetwork();
+  const [sdk, setSdk] = useState<NexusSDK | null>(null);
+
+  // One SDK per network. A switch replaces only the SDK, the app stays
+  // mounted, and the old instance is wound down in the background.
+  useEffect(() => {
+    if (!isResolved) return;
+    const instance = new NexusSDK({ network });
+    setSdk(instance);
+    return () => {
+      Promise.resolve(instance.deinit?.()).catch((err: unknown) =>
+        console.error("❌ Nexus de-initialization failed:", err)
+      );
+    };
+  }, [network, isResolved]);
+
+  const support = useMemo(
+    () => getNexusSupport(chains, sdk?.utils),
+    [chains, sdk]
+  );
+
   return (
-    <NexusProvider
-      config={{
-        network: "testnet", // Use testnet for development
-      }}
-    >
+    <NexusContext.Provider value={{ sdk, support }}>
       {children}
-    </NexusProvider>
+    </NexusContext.Provider>
   );
 }
+
+/** The Nexus SDK for the selected network and what it supports there. */
+export function useNexus() {
+  const context = useContext(NexusContext);
+  if (!context) {
+    throw new Error("useNexus must be used within NexusProvider");
+  }
+  return context;
+}
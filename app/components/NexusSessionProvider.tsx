@@ -0,0 +1,196 @@
+"use client";
+
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { NexusSDK, UserAsset } from "@avail-project/nexus";
+import {
+  canStartNexusSession,
+  createBalanceStore,
+  transitionNexusStatus,
+  type BalanceStore,
+  type NexusSessionEvent,
+  type NexusStatus,
+} from "../lib/nexus";
+
+interface NexusSessionContextValue {
+  status: NexusStatus;
+  error: string;
+  balanceStore: BalanceStore<UserAsset[]>;
+  trackInitialization: (
+    sdk: NexusSDK,
+    walletAddress: string,
+    initialize: () => Promise<void>
+  ) => Promise<void>;
+  retry: () => Promise<void>;
+  reset: () => void;
+}
+
+interface NexusSession {
+  sdk: NexusSDK;
+  walletAddress: string;
+  initialize: () => Promise<void>;
+}
+
+const NexusSessionContext = createContext<NexusSessionContextValue | null>(
+  null
+);
+
+interface NexusSessionProviderProps {
+  children: ReactNode;
+}
+
+export default function NexusSessionProvider({
+  children,
+}: NexusSessionProviderProps) {
+  const [status, setStatus] = useState<NexusStatus>("idle");
+  const [error, setError] = useState<string>("");
+
+  // Mirrors of state the async callbacks below read without re-creating
+  const statusRef = useRef<NexusStatus>("idle");
+  const sessionRef = useRef<NexusSession | null>(null);
+
+  const balanceStore = useMemo(
+    () =>
+      createBalanceStore<UserAsset[]>(async () => {
+        const session = sessionRef.current;
+        if (!session) throw new Error("Nexus is not initialized");
+        return session.sdk.getUnifiedBalances();
+      }),
+    []
+  );
+
+  const dispatch = useCallback((event: NexusSessionEvent) => {
+    statusRef.current = transitionNexusStatus(statusRef.current, event);
+    setStatus(statusRef.current);
+  }, []);
+
+  const reset = useCallback(() => {
+    sessionRef.current = null;
+    dispatch("reset");
+    setError("");
+    balanceStore.clear();
+  }, [dispatch, balanceStore]);
+
+  const run = useCallback(
+    async (session: NexusSession) => {
+      if (!canStartNexusSession(statusRef.current)) return;
+      dispatch("start");
+      setError("");
+      try {
+        await session.initialize();
+        // The wallet or network may have changed while the signature prompt
+        // was open
+        if (sessionRef.current !== session) return;
+        dispatch("succeed");
+        balanceStore.revalidate();
+      } catch (err) {
+        if (sessionRef.current !== session) return;
+        console.error("❌ Nexus initialization failed:", err);
+        setError(
+          err instanceof Error ? err.message : "Nexus initialization failed"
+        );
+        dispatch("fail");
+      }
+    },
+    [dispatch, balanceStore]
+  );
+
+  // Called by WalletBridge on every render it sees a wallet; only the first
+  // call for a wallet and SDK initializes, a different wallet or a new SDK
+  // after a network switch starts over. After a failure only `retry` tries
+  // again, so the wallet is not prompted in a loop.
+  const trackInitialization = useCallback(
+    async (
+      sdk: NexusSDK,
+      walletAddress: string,
+      initialize: () => Promise<void>
+    ) => {
+      const current = sessionRef.current;
+      if (current?.sdk === sdk && current?.walletAddress === walletAddress) {
+        return;
+      }
+      reset();
+      const session = { sdk, walletAddress, initialize };
+      sessionRef.current = session;
+      await run(session);
+    },
+    [reset, run]
+  );
+
+  const retry = useCallback(async () => {
+    const session = sessionRef.current;
+    if (session) await run(session);
+  }, [run]);
+
+  return (
+    <NexusSessionContext.Provider
+      value={{
+        status,
+        error,
+        balanceStore,
+        trackInitialization,
+        retry,
+        reset,
+      }}
+    >
+      {children}
+    </NexusSessionContext.Provider>
+  );
+}
+
+const useNexusSession = () => {
+  const context = useContext(NexusSessionContext);
+  if (!context) {
+    throw new Error("Nexus hooks must be used within NexusSessionProvider");
+  }
+  return context;
+};
+
+/** Initialization state of the shared Nexus SDK session. */
+export function useNexusStatus() {
+  const { status, error, retry } = useNexusSession();
+  return { status, error, isReady: status === "ready", retry };
+}
+
+/** Lets WalletBridge report the wallet it initializes Nexus with. */
+export function useNexusInitialization() {
+  const { trackInitialization, reset } = useNexusSession();
+  return { trackInitialization, reset };
+}
+
+/**
+ * Unified balances from the shared cache. Every caller sees the same data;
+ * mounting a component refetches only once the cache has gone stale.
+ */
+export function useUnifiedBalances() {
+  const { status, balanceStore } = useNexusSession();
+  const snapshot = useSyncExternalStore(
+    balanceStore.subscribe,
+    balanceStore.getSnapshot,
+    balanceStore.getSnapshot
+  );
+
+  useEffect(() => {
+    if (status === "ready") balanceStore.revalidateIfStale();
+  }, [status, balanceStore]);
+
+  return {
+    balances: snapshot.data ?? [],
+    error: snapshot.error,
+    // Nothing to show yet; later refreshes keep the previous balances
+    isLoading: snapshot.data === undefined && status !== "error",
+    isValidating: snapshot.isValidating,
+    updatedAt: snapshot.updatedAt,
+    refresh: balanceStore.revalidate,
+    invalidate: balanceStore.invalidate,
+  };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useNexusStatus } from "./NexusSessionProvider";
+
+// Shown in place of a Nexus feature until the shared session is ready
+export default function NexusStatusBanner() {
+  const { status, error, retry } = useNexusStatus();
+
+  if (status === "error") {
+    return (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+        <p className="text-red-800 dark:text-red-200 mb-2">
+          ❌ Nexus SDK could not be initialized: {error}
+        </p>
+        <button
+          onClick={retry}
+          className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-sm transition-colors"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+      <div className="flex items-center space-x-2">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+        <p className="text-blue-800 dark:text-blue-200">
+          🔄 Initializing Nexus SDK... Please sign the transaction in your
+          wallet if prompted.
+        </p>
+      </div>
+    </div>
+  );
+}
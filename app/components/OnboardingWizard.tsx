@@ -0,0 +1,582 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Address } from "viem";
+import { useWallets } from "@privy-io/react-auth";
+import { execHaloCmd } from "../lib/halo";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  describeHaloPaymentError,
+  getDeployment,
+  getReceiptPath,
+  getSlotRegistrations,
+  randomNonce,
+  type HaloSlotRegistration,
+  type PermitDomain,
+} from "../lib/halo-payment";
+import {
+  getCompletedSteps,
+  getNextStep,
+  getSelectedHaloAddress,
+  loadOnboardingProgress,
+  ONBOARDING_STEPS,
+  readOnboardingChainState,
+  saveOnboardingProgress,
+  TEST_PAYMENT_AMOUNT,
+  type OnboardingChainState,
+  type OnboardingProgress,
+  type OnboardingStep,
+} from "../lib/onboarding";
+import { formatUsdc, parseUsdcAmount } from "../lib/pos/cart";
+import { createWalletHaloPaymentClient, getPrivyWallet } from "../lib/wallet";
+
+interface OnboardingWizardProps {
+  chainId: number;
+  disabled?: boolean;
+  // Called after the tag registration changed on-chain
+  onChange?: () => void;
+}
+
+const CIRCLE_FAUCET_URL = "https://faucet.circle.com/";
+
+const shorten = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export default function OnboardingWizard({
+  chainId,
+  disabled = false,
+  onChange,
+}: OnboardingWizardProps) {
+  const { wallets } = useWallets();
+  const wallet = getPrivyWallet(wallets);
+  const walletAddress = wallet?.address as Address | undefined;
+
+  const deployment = getDeployment(chainId);
+  const publicClient = useMemo(
+    () => createDeploymentPublicClient(deployment),
+    [deployment]
+  );
+  const haloPayment = useMemo(
+    () =>
+      createHaloPaymentClient({
+        address: deployment.haloPayment,
+        publicClient,
+      }),
+    [deployment, publicClient]
+  );
+
+  const [progress, setProgress] = useState<OnboardingProgress>({});
+  const [chainState, setChainState] = useState<OnboardingChainState | null>(
+    null
+  );
+  const [registrations, setRegistrations] = useState<HaloSlotRegistration[]>(
+    []
+  );
+  // Step the user opened, defaults to the first one still to do
+  const [openStep, setOpenStep] = useState<OnboardingStep | null>(null);
+  const [allowanceInput, setAllowanceInput] = useState<string>("100");
+  // Set when both USDC and the deployed contract support EIP-2612 permits,
+  // registration then sets the cap as well
+  const [permitDomain, setPermitDomain] = useState<PermitDomain | null>(null);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const haloAddress = getSelectedHaloAddress(progress);
+  const done = getCompletedSteps(progress, chainState);
+  const nextStep = getNextStep(done);
+  const activeStep = openStep ?? nextStep;
+  const allowanceAmount = parseUsdcAmount(allowanceInput);
+  const usePermit = !!permitDomain && !done.has("allowance");
+
+  const updateProgress = (update: Partial<OnboardingProgress>) => {
+    if (!walletAddress) return;
+    const next = { ...progress, ...update };
+    setProgress(next);
+    saveOnboardingProgress(chainId, walletAddress, next);
+  };
+
+  useEffect(() => {
+    setProgress(
+      walletAddress ? loadOnboardingProgress(chainId, walletAddress) : {}
+    );
+    setOpenStep(null);
+  }, [chainId, walletAddress]);
+
+  const refresh = useCallback(async () => {
+    if (!walletAddress) return;
+    try {
+      setChainState(
+        await readOnboardingChainState({
+          haloPayment,
+          publicClient,
+          deployment,
+          wallet: walletAddress,
+          haloAddress,
+        })
+      );
+    } catch (err) {
+      setError(describeHaloPaymentError(err, "Failed to read your setup"));
+    }
+  }, [haloPayment, publicClient, deployment, walletAddress, haloAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    setPermitDomain(null);
+    // Older deployments lack registerHaloAddressWithPermit, so they keep
+    // the separate register and approve steps
+    if (!deployment.supportsPermit) return;
+    haloPayment.getUsdcPermitDomain(deployment.usdc).then(setPermitDomain);
+  }, [haloPayment, deployment]);
+
+  // Slot owners, so slots taken by other wallets cannot be picked
+  useEffect(() => {
+    if (!progress.etherAddresses) {
+      setRegistrations([]);
+      return;
+    }
+    getSlotRegistrations(haloPayment, progress.etherAddresses)
+      .then(setRegistrations)
+      .catch(() => setRegistrations([]));
+  }, [haloPayment, progress.etherAddresses]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError("");
+    try {
+      await action();
+      setOpenStep(null);
+    } catch (err) {
+      setError(describeHaloPaymentError(err, `${label} failed`));
+    } finally {
+      setIsBusy(false);
+      setStatus("");
+    }
+  };
+
+  const scanTag = () =>
+    run("Scanning", async () => {
+      setStatus("Hold your HaLo tag near the device...");
+      const { etherAddresses } = await execHaloCmd({ name: "get_pkeys" });
+      const slots = await getSlotRegistrations(haloPayment, etherAddresses);
+      // Keep the slot this wallet already uses, else the first free one
+      const preferred =
+        slots.find(
+          ({ payer }) =>
+            payer && payer.toLowerCase() === walletAddress?.toLowerCase()
+        ) ?? slots.find(({ payer }) => !payer);
+      updateProgress({
+        etherAddresses,
+        keyNo: preferred?.keyNo,
+        testPaymentHash: undefined,
+      });
+    });
+
+  const register = () =>
+    run("Registration", async () => {
+      if (!wallet || !haloAddress) return;
+      const { client } = await createWalletHaloPaymentClient(
+        wallet,
+        deployment,
+        publicClient
+      );
+      let hash;
+      if (usePermit && permitDomain && allowanceAmount !== null) {
+        setStatus("Sign the USDC permit in your wallet...");
+        const permit = await client.signUsdcPermit(
+          permitDomain,
+          allowanceAmount
+        );
+        setStatus("Confirm the registration in your wallet...");
+        hash = await client.registerHaloAddressWithPermit(haloAddress, permit);
+      } else {
+        setStatus("Confirm the registration in your wallet...");
+        hash = await client.registerHaloAddress(haloAddress);
+      }
+      setStatus("Waiting for the registration to be confirmed...");
+      await client.waitForTransaction(hash);
+      await refresh();
+      onChange?.();
+    });
+
+  const approve = () =>
+    run("Approval", async () => {
+      if (!wallet || allowanceAmount === null) return;
+      const { client } = await createWalletHaloPaymentClient(
+        wallet,
+        deployment,
+        publicClient
+      );
+      setStatus("Confirm the USDC approval in your wallet...");
+      const hash = await client.setAllowance(allowanceAmount, {
+        usdc: deployment.usdc,
+      });
+      setStatus("Waiting for the approval to be confirmed...");
+      await client.waitForTransaction(hash);
+      await refresh();
+    });
+
+  const testPayment = () =>
+    run("Test payment", async () => {
+      if (!wallet || !walletAddress || !haloAddress || !progress.keyNo) return;
+      const message = {
+        payer: walletAddress,
+        merchant: walletAddress,
+        amount: TEST_PAYMENT_AMOUNT,
+        nonce: randomNonce(),
+      };
+      setStatus("Tap your HaLo tag to sign the test payment...");
+      const result = await execHaloCmd({
+        name: "sign",
+        message: haloPayment.hashPayment(message),
+        format: "hex",
+        keyNo: progress.keyNo,
+      });
+      if (!result.signature?.ether) {
+        throw new Error("No signature received from HaLo tag");
+      }
+      const { valid, recovered } = await haloPayment.verifyPaymentSignature(
+        message,
+        result.signature.ether,
+        haloAddress
+      );
+      if (!valid) {
+        throw new Error(
+          `The tag signed with ${recovered}, not with key ${progress.keyNo}. Tap the same tag again.`
+        );
+      }
+
+      const { client } = await createWalletHaloPaymentClient(
+        wallet,
+        deployment,
+        publicClient
+      );
+      const payment = {
+        haloAddress,
+        merchant: walletAddress,
+        amount: message.amount,
+        nonce: message.nonce,
+        signature: result.signature.ether,
+      };
+      await client.simulateExecutePaymentFromHalo(payment);
+      setStatus("Confirm the test payment in your wallet...");
+      const hash = await client.executePaymentFromHalo(payment);
+      setStatus("Waiting for the payment to be confirmed...");
+      const receipt = await client.waitForTransaction(hash);
+      if (receipt.status !== "success") {
+        throw new Error("The test payment reverted");
+      }
+      updateProgress({ testPaymentHash: hash });
+    });
+
+  if (!walletAddress) {
+    return (
+      <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg mb-6">
+        <p className="text-yellow-800 text-sm">
+          Connect your wallet to set up a HaLo tag for payments.
+        </p>
+      </div>
+    );
+  }
+
+  const canTestPay =
+    done.has("register") && done.has("allowance") && done.has("fund");
+  const button =
+    "w-full p-3 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors";
+  // What the next wallet prompt will be, shown before it opens
+  const prompt = (text: string) => (
+    <p className="p-2 mb-3 bg-white border border-orange-200 rounded text-xs text-gray-600">
+      👛 {text}
+    </p>
+  );
+
+  const allowanceField = (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={allowanceInput}
+      onChange={(e) => setAllowanceInput(e.target.value)}
+      className="w-full p-2 mb-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+    />
+  );
+
+  const renderStep = (step: OnboardingStep) => {
+    switch (step) {
+      case "scan":
+        return (
+          <>
+            <p className="text-sm text-gray-700 mb-3">
+              Reads the public keys of your tag. No transaction is sent.
+            </p>
+            <button
+              onClick={scanTag}
+              disabled={disabled || isBusy}
+              className={button}
+            >
+              {progress.etherAddresses ? "Scan again" : "Scan tag"}
+            </button>
+          </>
+        );
+      case "slot":
+        if (!progress.etherAddresses) {
+          return <p className="text-sm text-gray-600">Scan your tag first.</p>;
+        }
+        return (
+          <>
+            <p className="text-sm text-gray-700 mb-3">
+              Pick the key on your tag that will sign payments.
+            </p>
+            <div className="space-y-2">
+              {Object.entries(progress.etherAddresses).map(
+                ([keyNo, address]) => {
+                  const payer = registrations.find(
+                    (registration) => registration.keyNo === keyNo
+                  )?.payer;
+                  const takenByOther =
+                    !!payer &&
+                    payer.toLowerCase() !== walletAddress.toLowerCase();
+                  return (
+                    <label
+                      key={keyNo}
+                      className={`flex items-center space-x-2 p-2 border rounded-lg text-sm ${
+                        takenByOther ? "opacity-50" : "cursor-pointer"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        checked={progress.keyNo === keyNo}
+                        disabled={takenByOther || isBusy}
+                        onChange={() =>
+                          updateProgress({ keyNo, testPaymentHash: undefined })
+                        }
+                      />
+                      <span>
+                        Key {keyNo} – {shorten(address)}
+                        {payer
+                          ? takenByOther
+                            ? " (registered to another wallet)"
+                            : " (registered to you)"
+                          : ""}
+                      </span>
+                    </label>
+                  );
+                }
+              )}
+            </div>
+          </>
+        );
+      case "register":
+        if (!haloAddress) {
+          return (
+            <p className="text-sm text-gray-600">Choose a key slot first.</p>
+          );
+        }
+        if (done.has("register")) {
+          return (
+            <p className="text-sm text-gray-700">
+              Key {progress.keyNo} ({shorten(haloAddress)}) is registered to
+              your wallet.
+            </p>
+          );
+        }
+        if (usePermit) {
+          return (
+            <>
+              <p className="text-sm text-gray-700 mb-2">
+                Spending cap for tag payments (USDC):
+              </p>
+              {allowanceField}
+              {prompt(
+                `Your wallet will first ask you to sign a USDC permit for up to ${
+                  allowanceInput || "0"
+                } USDC, which costs no gas. It then asks you to confirm registerHaloAddressWithPermit(${shorten(
+                  haloAddress
+                )}) on ${deployment.chain.name}, a single transaction that lets key ${
+                  progress.keyNo
+                } sign payments and sets the cap.`
+              )}
+              {chainState?.authorizedHalo && (
+                <p className="text-xs text-orange-700 mb-3">
+                  This replaces your current tag{" "}
+                  {shorten(chainState.authorizedHalo)}, which will stop working.
+                </p>
+              )}
+              <button
+                onClick={register}
+                disabled={disabled || isBusy || allowanceAmount === null}
+                className={button}
+              >
+                Register key {progress.keyNo} with a {allowanceInput || "0"} USDC
+                cap
+              </button>
+            </>
+          );
+        }
+        return (
+          <>
+            {prompt(
+              `Your wallet will ask you to confirm registerHaloAddress(${shorten(
+                haloAddress
+              )}) on ${deployment.chain.name}. It lets key ${
+                progress.keyNo
+              } sign payments drawn from your wallet and costs a little gas.`
+            )}
+            {chainState?.authorizedHalo && (
+              <p className="text-xs text-orange-700 mb-3">
+                This replaces your current tag{" "}
+                {shorten(chainState.authorizedHalo)}, which will stop working.
+              </p>
+            )}
+            <button
+              onClick={register}
+              disabled={disabled || isBusy}
+              className={button}
+            >
+              Register key {progress.keyNo}
+            </button>
+          </>
+        );
+      case "allowance":
+        return (
+          <>
+            <p className="text-sm text-gray-700 mb-2">
+              Current allowance:{" "}
+              {chainState ? formatUsdc(chainState.allowance) : "..."} USDC
+            </p>
+            {allowanceField}
+            {prompt(
+              `Your wallet will ask you to approve ${shorten(
+                deployment.haloPayment
+              )} (HaloPayment) to spend up to ${
+                allowanceInput || "0"
+              } USDC. Tag payments can never take more than this, and you can change it at any time.`
+            )}
+            <button
+              onClick={approve}
+              disabled={disabled || isBusy || allowanceAmount === null}
+              className={button}
+            >
+              Approve {allowanceInput || "0"} USDC
+            </button>
+          </>
+        );
+      case "fund":
+        return (
+          <>
+            <p className="text-sm text-gray-700 mb-2">
+              Your wallet holds{" "}
+              {chainState ? formatUsdc(chainState.usdcBalance) : "..."} USDC on{" "}
+              {deployment.chain.name}. Send at least{" "}
+              {formatUsdc(TEST_PAYMENT_AMOUNT)} USDC to{" "}
+              <span className="font-mono break-all">{walletAddress}</span>.
+            </p>
+            {deployment.chain.testnet && (
+              <a
+                href={CIRCLE_FAUCET_URL}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block mb-3 text-sm text-indigo-600 hover:underline"
+              >
+                Get test USDC from the Circle faucet →
+              </a>
+            )}
+            <button
+              onClick={() => run("Refreshing", refresh)}
+              disabled={isBusy}
+              className={button}
+            >
+              Check balance again
+            </button>
+          </>
+        );
+      case "testPayment":
+        if (progress.testPaymentHash) {
+          return (
+            <p className="text-sm text-gray-700">
+              Test payment confirmed.{" "}
+              <Link
+                href={getReceiptPath(chainId, progress.testPaymentHash)}
+                className="text-indigo-600 hover:underline"
+              >
+                🧾 Show receipt
+              </Link>
+            </p>
+          );
+        }
+        if (!canTestPay) {
+          return (
+            <p className="text-sm text-gray-600">
+              Finish registration, allowance and funding first.
+            </p>
+          );
+        }
+        return (
+          <>
+            {prompt(
+              `First tap your tag to sign a ${formatUsdc(
+                TEST_PAYMENT_AMOUNT
+              )} USDC payment from your wallet to itself. Your wallet then asks you to confirm sending it. You only pay gas, the USDC comes straight back.`
+            )}
+            <button
+              onClick={testPayment}
+              disabled={disabled || isBusy}
+              className={button}
+            >
+              Tap and pay {formatUsdc(TEST_PAYMENT_AMOUNT)} USDC
+            </button>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg mb-6">
+      <h3 className="font-semibold text-orange-800 mb-3">
+        🔐 Set up your HaLo tag
+        <span className="ml-2 text-sm font-normal text-orange-700">
+          {done.size}/{ONBOARDING_STEPS.length} done
+        </span>
+      </h3>
+
+      <ol className="space-y-2">
+        {ONBOARDING_STEPS.map(({ step, title }, index) => (
+          <li key={step} className="bg-orange-100/50 rounded-lg">
+            <button
+              onClick={() => setOpenStep(step)}
+              disabled={isBusy}
+              className="w-full flex items-center justify-between p-3 text-left"
+            >
+              <span
+                className={`text-sm font-medium ${
+                  step === activeStep ? "text-orange-900" : "text-gray-700"
+                }`}
+              >
+                {index + 1}. {title}
+              </span>
+              <span>
+                {done.has(step) ? "✅" : step === nextStep ? "👉" : "○"}
+              </span>
+            </button>
+            {step === activeStep && (
+              <div className="px-3 pb-3">{renderStep(step)}</div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {nextStep === null && (
+        <p className="mt-3 text-sm text-green-700">
+          ✅ All set! Your tag can pay at any HaLo terminal on{" "}
+          {deployment.chain.name}.
+        </p>
+      )}
+      {status && <p className="mt-3 text-sm text-orange-700">{status}</p>}
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
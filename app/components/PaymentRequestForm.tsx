@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import QRCode from "qrcode";
+import { createWalletClient, custom, type Address } from "viem";
+import { useWallets } from "@privy-io/react-auth";
+import {
+  getDeployment,
+  getPaymentRequestTypedData,
+  getPaymentRequestUrl,
+  type PaymentRequest,
+} from "../lib/halo-payment";
+import { formatUsdc, parseUsdcAmount } from "../lib/pos/cart";
+import { getPrivyWallet } from "../lib/wallet";
+
+interface PaymentRequestFormProps {
+  chainId: number;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: "1 hour", seconds: 60 * 60 },
+  { label: "24 hours", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+];
+
+export default function PaymentRequestForm({
+  chainId,
+}: PaymentRequestFormProps) {
+  const { wallets } = useWallets();
+  const wallet = getPrivyWallet(wallets);
+
+  const [amountInput, setAmountInput] = useState<string>("");
+  const [reference, setReference] = useState<string>("");
+  const [expirySeconds, setExpirySeconds] = useState<number>(
+    EXPIRY_OPTIONS[1].seconds
+  );
+  const [link, setLink] = useState<string>("");
+  const [qrCode, setQrCode] = useState<string>("");
+  const [copied, setCopied] = useState<boolean>(false);
+  const [isSigning, setIsSigning] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  const amount = parseUsdcAmount(amountInput);
+
+  const createRequest = async () => {
+    if (!wallet || amount === null) return;
+    setIsSigning(true);
+    setError("");
+    setLink("");
+    setQrCode("");
+    try {
+      const deployment = getDeployment(chainId);
+      const request: PaymentRequest = {
+        chainId,
+        contract: deployment.haloPayment,
+        merchant: wallet.address as Address,
+        amount,
+        expiry: Math.floor(Date.now() / 1000) + expirySeconds,
+        reference: reference.trim(),
+      };
+      // The typed data domain names the chain, so signing needs no switch
+      const walletClient = createWalletClient({
+        account: wallet.address as Address,
+        transport: custom(await wallet.getEthereumProvider()),
+      });
+      const signature = await walletClient.signTypedData(
+        getPaymentRequestTypedData(request)
+      );
+      const url = getPaymentRequestUrl(window.location.origin, {
+        ...request,
+        signature,
+      });
+      setLink(url);
+      setQrCode(await QRCode.toDataURL(url, { width: 240, margin: 1 }));
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to sign the payment request"
+      );
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!wallet) return null;
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg mb-6">
+      <h3 className="font-semibold text-gray-800 mb-1">🔗 Payment Request</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Sign an invoice now and let any device with the app collect it with a
+        HaLo tap.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-2">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={amountInput}
+          onChange={(e) => setAmountInput(e.target.value)}
+          placeholder="Amount (USDC)"
+          className="p-2 border border-gray-300 rounded-lg text-gray-900"
+        />
+        <input
+          type="text"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          placeholder="Reference, e.g. INV-1042"
+          maxLength={64}
+          className="p-2 border border-gray-300 rounded-lg text-gray-900"
+        />
+        <select
+          value={expirySeconds}
+          onChange={(e) => setExpirySeconds(parseInt(e.target.value))}
+          className="p-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+        >
+          {EXPIRY_OPTIONS.map(({ label, seconds }) => (
+            <option key={seconds} value={seconds}>
+              Expires in {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={createRequest}
+        disabled={isSigning || amount === null}
+        className="w-full p-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white text-sm font-semibold rounded-lg transition-colors"
+      >
+        {isSigning
+          ? "Waiting for signature..."
+          : amount !== null
+          ? `Sign request for ${formatUsdc(amount)} USDC`
+          : "Enter an amount"}
+      </button>
+
+      {link && (
+        <div className="mt-4 flex flex-col items-center">
+          {qrCode && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={qrCode}
+              alt="QR code of the payment request"
+              width={240}
+              height={240}
+            />
+          )}
+          <div className="flex w-full gap-2 mt-3">
+            <input
+              readOnly
+              value={link}
+              className="flex-1 p-2 border border-gray-300 rounded-lg text-xs font-mono text-gray-700"
+            />
+            <button
+              onClick={copyLink}
+              className="px-3 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-semibold rounded-lg"
+            >
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-700 mt-3">❌ {error}</p>}
+    </div>
+  );
+}
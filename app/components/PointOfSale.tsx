@@ -0,0 +1,375 @@
+"use client";
+
+import { useState } from "react";
+import {
+  computeCartTotals,
+  formatUsdc,
+  lineItemTotal,
+  parseUsdcAmount,
+  percentToBps,
+  type CartLineItem,
+  type CartTotals,
+} from "../lib/pos/cart";
+
+interface PointOfSaleProps {
+  disabled: boolean;
+  isProcessing: boolean;
+  // Resolves to whether the charge went through
+  onCharge: (amount: bigint) => Promise<boolean>;
+}
+
+type PosMode = "amount" | "cart";
+
+const TIP_PRESETS = ["0", "10", "15", "20"];
+
+export default function PointOfSale({
+  disabled,
+  isProcessing,
+  onCharge,
+}: PointOfSaleProps) {
+  const [mode, setMode] = useState<PosMode>("amount");
+  const [amount, setAmount] = useState<string>("");
+
+  const [items, setItems] = useState<CartLineItem[]>([]);
+  const [itemName, setItemName] = useState<string>("");
+  const [itemPrice, setItemPrice] = useState<string>("");
+  const [itemQuantity, setItemQuantity] = useState<string>("1");
+  const [taxPercent, setTaxPercent] = useState<string>("0");
+  const [tipPercent, setTipPercent] = useState<string>("0");
+  const [customTip, setCustomTip] = useState<string>("");
+
+  // Totals awaiting the merchant's confirmation before the customer taps
+  const [pendingCharge, setPendingCharge] = useState<CartTotals | null>(null);
+
+  const addItem = () => {
+    const unitPrice = parseUsdcAmount(itemPrice);
+    const quantity = parseInt(itemQuantity, 10);
+    if (!itemName.trim() || !unitPrice || !(quantity > 0)) return;
+
+    setItems((current) => [
+      ...current,
+      {
+        id: `${Date.now()}-${current.length}`,
+        name: itemName.trim(),
+        unitPrice,
+        quantity,
+      },
+    ]);
+    setItemName("");
+    setItemPrice("");
+    setItemQuantity("1");
+  };
+
+  const updateQuantity = (id: string, quantity: number) => {
+    setItems((current) =>
+      quantity > 0
+        ? current.map((item) => (item.id === id ? { ...item, quantity } : item))
+        : current.filter((item) => item.id !== id)
+    );
+  };
+
+  const customTipAmount = customTip ? parseUsdcAmount(customTip) : null;
+  const cartTotals = computeCartTotals(
+    items,
+    percentToBps(taxPercent),
+    customTipAmount !== null
+      ? { amount: customTipAmount }
+      : { bps: percentToBps(tipPercent) }
+  );
+
+  const enteredAmount = parseUsdcAmount(amount);
+  const totals: CartTotals | null =
+    mode === "amount"
+      ? enteredAmount
+        ? {
+            subtotal: enteredAmount,
+            tax: BigInt(0),
+            tip: BigInt(0),
+            total: enteredAmount,
+          }
+        : null
+      : cartTotals.total > BigInt(0)
+      ? cartTotals
+      : null;
+
+  // The sale is kept after a failed charge so it can be retried
+  const confirmCharge = async () => {
+    if (!pendingCharge) return;
+    const total = pendingCharge.total;
+    setPendingCharge(null);
+    if (await onCharge(total)) resetSale();
+  };
+
+  const resetSale = () => {
+    setAmount("");
+    setItems([]);
+    setTaxPercent("0");
+    setTipPercent("0");
+    setCustomTip("");
+    setPendingCharge(null);
+  };
+
+  if (pendingCharge) {
+    return (
+      <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg mb-6">
+        <h3 className="font-semibold text-purple-800 mb-3">
+          💳 Confirm Amount
+        </h3>
+        <div className="space-y-1 text-sm text-purple-900 mb-3">
+          {mode === "cart" && (
+            <>
+              {items.map((item) => (
+                <div key={item.id} className="flex justify-between">
+                  <span>
+                    {item.quantity} × {item.name}
+                  </span>
+                  <span>{formatUsdc(lineItemTotal(item))} USDC</span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t border-purple-200 pt-1">
+                <span>Subtotal</span>
+                <span>{formatUsdc(pendingCharge.subtotal)} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Tax</span>
+                <span>{formatUsdc(pendingCharge.tax)} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Tip</span>
+                <span>{formatUsdc(pendingCharge.tip)} USDC</span>
+              </div>
+            </>
+          )}
+        </div>
+        <div className="text-center text-3xl font-bold text-purple-900 mb-4">
+          {formatUsdc(pendingCharge.total)} USDC
+        </div>
+        <p className="text-sm text-purple-700 text-center mb-4">
+          Ask the customer to check the amount before tapping their HaLo tag.
+        </p>
+        <div className="flex gap-4">
+          <button
+            onClick={() => setPendingCharge(null)}
+            className="w-full p-3 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors"
+          >
+            Back
+          </button>
+          <button
+            onClick={confirmCharge}
+            disabled={disabled || isProcessing}
+            className="w-full p-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors"
+          >
+            Confirm & Tap to Pay
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-purple-800">🧾 Point of Sale</h3>
+        <div className="flex rounded-lg overflow-hidden border border-purple-300 text-sm">
+          {(["amount", "cart"] as PosMode[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 ${
+                mode === option
+                  ? "bg-purple-600 text-white"
+                  : "bg-white text-purple-700 hover:bg-purple-100"
+              }`}
+            >
+              {option === "amount" ? "Amount" : "Cart"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === "amount" ? (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Amount (USDC)
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="0.00"
+            className="w-full p-3 border border-gray-300 rounded-lg text-2xl text-gray-900 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          {amount && !enteredAmount && (
+            <p className="text-sm text-red-600 mt-1">
+              Enter a positive amount with at most 6 decimals
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3 mb-4">
+          {/* Line items */}
+          {items.length > 0 && (
+            <ul className="space-y-2">
+              {items.map((item) => (
+                <li
+                  key={item.id}
+                  className="flex items-center justify-between p-2 bg-white rounded-lg text-sm"
+                >
+                  <span className="text-gray-900">
+                    {item.name}{" "}
+                    <span className="text-gray-500">
+                      @ {formatUsdc(item.unitPrice)}
+                    </span>
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                      className="w-6 h-6 bg-gray-200 hover:bg-gray-300 rounded"
+                    >
+                      −
+                    </button>
+                    <span className="w-6 text-center">{item.quantity}</span>
+                    <button
+                      onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                      className="w-6 h-6 bg-gray-200 hover:bg-gray-300 rounded"
+                    >
+                      +
+                    </button>
+                    <span className="w-24 text-right font-medium text-gray-900">
+                      {formatUsdc(lineItemTotal(item))}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Add item */}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={itemName}
+              onChange={(e) => setItemName(e.target.value)}
+              placeholder="Item"
+              className="flex-1 p-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            <input
+              type="text"
+              inputMode="decimal"
+              value={itemPrice}
+              onChange={(e) => setItemPrice(e.target.value)}
+              placeholder="Price"
+              className="w-24 p-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            <input
+              type="number"
+              min="1"
+              value={itemQuantity}
+              onChange={(e) => setItemQuantity(e.target.value)}
+              className="w-16 p-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+            />
+            <button
+              onClick={addItem}
+              className="px-3 bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold rounded-lg"
+            >
+              Add
+            </button>
+          </div>
+
+          {/* Tax and tip */}
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <label className="flex items-center justify-between p-2 bg-white rounded-lg">
+              <span className="text-gray-700">Tax %</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={taxPercent}
+                onChange={(e) => setTaxPercent(e.target.value)}
+                className="w-20 p-1 border border-gray-300 rounded text-right text-gray-900"
+              />
+            </label>
+            <label className="flex items-center justify-between p-2 bg-white rounded-lg">
+              <span className="text-gray-700">Tip (USDC)</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={customTip}
+                onChange={(e) => setCustomTip(e.target.value)}
+                placeholder="—"
+                className="w-20 p-1 border border-gray-300 rounded text-right text-gray-900"
+              />
+            </label>
+          </div>
+          <div className="flex gap-2 text-sm">
+            <span className="text-gray-700 self-center">Tip:</span>
+            {TIP_PRESETS.map((preset) => (
+              <button
+                key={preset}
+                onClick={() => {
+                  setTipPercent(preset);
+                  setCustomTip("");
+                }}
+                className={`px-3 py-1 rounded-full ${
+                  !customTip && tipPercent === preset
+                    ? "bg-purple-600 text-white"
+                    : "bg-white text-purple-700 hover:bg-purple-100"
+                }`}
+              >
+                {preset === "0" ? "None" : `${preset}%`}
+              </button>
+            ))}
+          </div>
+
+          <div className="p-2 bg-white rounded-lg text-sm text-gray-700 space-y-1">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>{formatUsdc(cartTotals.subtotal)} USDC</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Tax</span>
+              <span>{formatUsdc(cartTotals.tax)} USDC</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Tip</span>
+              <span>{formatUsdc(cartTotals.tip)} USDC</span>
+            </div>
+            <div className="flex justify-between font-semibold text-gray-900 border-t border-gray-200 pt-1">
+              <span>Total</span>
+              <span>{formatUsdc(cartTotals.total)} USDC</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-4">
+        <button
+          onClick={resetSale}
+          className="p-4 bg-gray-200 hover:bg-gray-300 text-gray-800 font-semibold rounded-lg transition-colors"
+        >
+          Clear
+        </button>
+        <button
+          onClick={() => totals && setPendingCharge(totals)}
+          disabled={disabled || isProcessing || !totals}
+          className="w-full p-4 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2"
+        >
+          {isProcessing ? (
+            <>
+              <span className="animate-spin">⏳</span>
+              <span>Processing...</span>
+            </>
+          ) : (
+            <>
+              <span>💳</span>
+              <span>
+                Charge {totals ? `${formatUsdc(totals.total)} USDC` : ""}
+              </span>
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+interface RealFundsConfirmationProps {
+  // What is about to happen, e.g. "Bridge 10 USDC to Base"
+  summary: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Second step before a mainnet bridge or transfer goes to the wallet
+export default function RealFundsConfirmation({
+  summary,
+  onConfirm,
+  onCancel,
+}: RealFundsConfirmationProps) {
+  return (
+    <div className="bg-red-50 dark:bg-red-900/20 border-2 border-red-400 dark:border-red-700 rounded-lg p-4">
+      <p className="text-red-800 dark:text-red-200 text-sm mb-3">
+        ⚠️ <strong>Mainnet:</strong> {summary}. This moves real funds and
+        cannot be undone.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          className="flex-1 bg-red-600 hover:bg-red-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          Yes, send real funds
+        </button>
+      </div>
+    </div>
+  );
+}
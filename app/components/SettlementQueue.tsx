@@ -0,0 +1,223 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useWallets } from "@privy-io/react-auth";
+import {
+  createDeploymentPublicClient,
+  getDeployment,
+  getReceiptPath,
+} from "../lib/halo-payment";
+import { getChainInfo, getExplorerTxUrl } from "../lib/chains";
+import { formatUsdc } from "../lib/pos/cart";
+import { submitRelayedPayment } from "../lib/relayer/client";
+import type { SubmitMode } from "../lib/relayer/types";
+import {
+  listQueuedPayments,
+  onQueueChanged,
+  removeQueuedPayment,
+  settleQueuedPayments,
+  type QueuedPayment,
+  type QueuedPaymentStatus,
+  type SubmitQueuedPayment,
+} from "../lib/settlement";
+import { createWalletHaloPaymentClient, getPrivyWallet } from "../lib/wallet";
+
+interface SettlementQueueProps {
+  submitMode: SubmitMode;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<QueuedPaymentStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  settling: "bg-blue-100 text-blue-800",
+  settled: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+export default function SettlementQueue({
+  submitMode,
+  disabled = false,
+}: SettlementQueueProps) {
+  const { wallets } = useWallets();
+  const wallet = getPrivyWallet(wallets);
+
+  const [payments, setPayments] = useState<QueuedPayment[]>([]);
+  const [isSettling, setIsSettling] = useState<boolean>(false);
+  const [summary, setSummary] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  const refresh = useCallback(async () => {
+    try {
+      setPayments(await listQueuedPayments());
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load the payment queue"
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return onQueueChanged(refresh);
+  }, [refresh]);
+
+  const submit: SubmitQueuedPayment = useCallback(
+    async (payment, queued) => {
+      if (submitMode === "relay") {
+        return submitRelayedPayment({ chainId: queued.chainId, ...payment });
+      }
+      if (!wallet) {
+        throw new Error("Connect a wallet to submit queued payments.");
+      }
+      const deployment = getDeployment(queued.chainId);
+      const { client } = await createWalletHaloPaymentClient(
+        wallet,
+        deployment,
+        createDeploymentPublicClient(deployment)
+      );
+      return client.executePaymentFromHalo(payment);
+    },
+    [submitMode, wallet]
+  );
+
+  const settle = useCallback(async () => {
+    setIsSettling(true);
+    setError("");
+    try {
+      const { settled, failed, pending } = await settleQueuedPayments(submit);
+      setSummary(
+        `${settled} settled, ${failed} failed, ${pending} still pending.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Settlement failed");
+    } finally {
+      setIsSettling(false);
+      await refresh();
+    }
+  }, [submit, refresh]);
+
+  const hasDuePayments = payments.some(
+    ({ status, retryable }) =>
+      status === "pending" || (status === "failed" && retryable)
+  );
+
+  // Settle automatically as soon as the device comes back online
+  useEffect(() => {
+    const handleOnline = () => {
+      if (hasDuePayments && !isSettling && !disabled) settle();
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [hasDuePayments, isSettling, disabled, settle]);
+
+  if (!payments.length) return null;
+
+  const clearSettled = async () => {
+    await Promise.all(
+      payments
+        .filter(({ status }) => status === "settled")
+        .map(({ id }) => removeQueuedPayment(id))
+    );
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-800">
+          📥 Settlement Queue ({payments.length})
+        </h3>
+        <div className="flex gap-2">
+          {payments.some(({ status }) => status === "settled") && (
+            <button
+              onClick={clearSettled}
+              disabled={isSettling}
+              className="px-3 py-1 bg-gray-200 hover:bg-gray-300 text-gray-800 text-sm font-semibold rounded-lg"
+            >
+              Clear settled
+            </button>
+          )}
+          <button
+            onClick={settle}
+            disabled={disabled || isSettling || !hasDuePayments}
+            className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white text-sm font-semibold rounded-lg"
+          >
+            {isSettling ? "Settling..." : "Settle now"}
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {payments.map((payment) => {
+          const chain = getChainInfo(payment.chainId);
+          const explorerUrl =
+            payment.hash
+              ? getExplorerTxUrl(payment.chainId, payment.hash)
+              : null;
+          return (
+            <li key={payment.id} className="p-3 bg-white rounded-lg text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-gray-800">
+                  {formatUsdc(BigInt(payment.amount))} USDC
+                </span>
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[payment.status]}`}
+                >
+                  {payment.status}
+                  {payment.status === "failed" && payment.retryable
+                    ? " (will retry)"
+                    : ""}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {new Date(payment.createdAt).toLocaleString()} · payer{" "}
+                <span className="font-mono">
+                  {payment.payer.slice(0, 6)}...{payment.payer.slice(-4)}
+                </span>{" "}
+                · {chain?.name ?? `chain ${payment.chainId}`}
+                {payment.attempts > 0 && ` · ${payment.attempts} attempt(s)`}
+              </div>
+              {payment.hash && (
+                <div className="text-xs font-mono break-all mt-1">
+                  {explorerUrl ? (
+                    <a
+                      href={explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-indigo-600 hover:underline"
+                    >
+                      {payment.hash}
+                    </a>
+                  ) : (
+                    payment.hash
+                  )}
+                </div>
+              )}
+              {payment.status === "settled" && payment.hash && (
+                <a
+                  href={getReceiptPath(payment.chainId, payment.hash)}
+                  className="inline-block mt-1 text-xs text-indigo-600 hover:underline"
+                >
+                  🧾 Receipt
+                </a>
+              )}
+              {payment.error && (
+                <p className="text-xs text-red-700 mt-1">{payment.error}</p>
+              )}
+              {payment.status === "failed" && !payment.retryable && (
+                <button
+                  onClick={() => removeQueuedPayment(payment.id)}
+                  className="mt-2 text-xs text-red-700 hover:underline"
+                >
+                  Remove from queue
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {summary && <p className="text-sm text-gray-700 mt-3">{summary}</p>}
+      {error && <p className="text-sm text-red-700 mt-3">❌ {error}</p>}
+    </div>
+  );
+}
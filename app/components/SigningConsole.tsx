@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Address } from "viem";
+import {
+  execHaloCmd,
+  getSignCommand,
+  parseDigest,
+  parseTypedData,
+  signedPayloadToJson,
+  toSignedPayload,
+  type SignedPayload,
+  type SigningInput,
+  type SigningMode,
+} from "../lib/halo";
+import { downloadFile } from "../lib/ledger";
+
+interface SigningConsoleProps {
+  keySlots: { key: string; address?: Address }[];
+  defaultKeyNo: string;
+  disabled?: boolean;
+}
+
+const MODES: { mode: SigningMode; label: string }[] = [
+  { mode: "text", label: "Text" },
+  { mode: "digest", label: "Hex digest" },
+  { mode: "typedData", label: "EIP-712" },
+];
+
+const EXAMPLE_TYPED_DATA = JSON.stringify(
+  {
+    domain: { name: "Example", version: "1", chainId: 1 },
+    types: {
+      Greeting: [
+        { name: "from", type: "string" },
+        { name: "contents", type: "string" },
+      ],
+    },
+    primaryType: "Greeting",
+    message: { from: "HaLo", contents: "Hello World" },
+  },
+  null,
+  2
+);
+
+const buildInput = (
+  mode: SigningMode,
+  text: string,
+  digest: string,
+  typedData: string
+): SigningInput => {
+  switch (mode) {
+    case "text":
+      if (!text) throw new Error("Enter a message to sign");
+      return { mode, message: text };
+    case "digest":
+      return { mode, digest: parseDigest(digest.trim()) };
+    case "typedData":
+      return { mode, typedData: parseTypedData(typedData) };
+  }
+};
+
+export default function SigningConsole({
+  keySlots,
+  defaultKeyNo,
+  disabled,
+}: SigningConsoleProps) {
+  const [keyNo, setKeyNo] = useState<string>(defaultKeyNo);
+  const [mode, setMode] = useState<SigningMode>("text");
+  const [text, setText] = useState<string>("Hello World");
+  const [digest, setDigest] = useState<string>("");
+  const [typedData, setTypedData] = useState<string>(EXAMPLE_TYPED_DATA);
+  const [signed, setSigned] = useState<SignedPayload | null>(null);
+  const [isSigning, setIsSigning] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  // Follow the slot picked elsewhere on the page
+  useEffect(() => setKeyNo(defaultKeyNo), [defaultKeyNo]);
+
+  const expectedAddress = keySlots.find(({ key }) => key === keyNo)?.address;
+
+  const sign = async () => {
+    setError("");
+    setSigned(null);
+    let input: SigningInput;
+    try {
+      input = buildInput(mode, text, digest, typedData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid input");
+      return;
+    }
+
+    setIsSigning(true);
+    try {
+      const result = await execHaloCmd(getSignCommand(keyNo, input));
+      setSigned(await toSignedPayload(input, result));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Signing failed");
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  // Without a scan, fall back to the address the chip reported while signing
+  const verifiedAgainst = expectedAddress ?? signed?.keyAddress;
+  const matches =
+    signed && verifiedAgainst
+      ? signed.signer.toLowerCase() === verifiedAgainst.toLowerCase()
+      : false;
+
+  const exportPayload = () => {
+    if (!signed) return;
+    downloadFile(
+      `halo-signature-key${signed.keyNo}-${signed.digest.slice(2, 10)}.json`,
+      signedPayloadToJson(signed),
+      "application/json"
+    );
+  };
+
+  return (
+    <div className="p-4 bg-green-50 border border-green-200 rounded-lg mb-6">
+      <h3 className="font-semibold text-green-800 mb-3">✍️ Signing console</h3>
+
+      <div className="flex gap-2 mb-3">
+        {MODES.map((option) => (
+          <button
+            key={option.mode}
+            onClick={() => setMode(option.mode)}
+            disabled={isSigning}
+            className={`flex-1 px-3 py-2 text-sm font-semibold rounded-lg transition-colors ${
+              mode === option.mode
+                ? "bg-green-600 text-white"
+                : "bg-white text-green-800 border border-green-300 hover:bg-green-100"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "text" && (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={3}
+          placeholder="Message, signed with the Ethereum personal message prefix"
+          className="w-full p-3 border border-gray-300 rounded-lg bg-white text-gray-900 text-sm mb-3"
+        />
+      )}
+      {mode === "digest" && (
+        <input
+          value={digest}
+          onChange={(e) => setDigest(e.target.value)}
+          placeholder="0x… 32-byte digest, signed without any prefix"
+          className="w-full p-3 border border-gray-300 rounded-lg bg-white text-gray-900 font-mono text-sm mb-3"
+        />
+      )}
+      {mode === "typedData" && (
+        <textarea
+          value={typedData}
+          onChange={(e) => setTypedData(e.target.value)}
+          rows={12}
+          spellCheck={false}
+          className="w-full p-3 border border-gray-300 rounded-lg bg-white text-gray-900 font-mono text-xs mb-3"
+        />
+      )}
+
+      <div className="flex gap-2">
+        <select
+          value={keyNo}
+          onChange={(e) => setKeyNo(e.target.value)}
+          disabled={isSigning}
+          className="p-3 border border-gray-300 rounded-lg bg-white text-gray-900"
+        >
+          {keySlots.map(({ key }) => (
+            <option key={key} value={key}>
+              Key {key}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={sign}
+          disabled={disabled || isSigning}
+          className="flex-1 p-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors"
+        >
+          {isSigning ? "Tap your HaLo tag..." : `Sign with Key ${keyNo}`}
+        </button>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {signed && (
+        <div className="mt-4 space-y-2 text-xs text-green-900">
+          <div>
+            <strong>Digest:</strong>
+            <pre className="mt-1 p-2 bg-green-100 rounded overflow-auto">
+              {signed.digest}
+            </pre>
+          </div>
+          <div>
+            <strong>Signature:</strong>
+            <pre className="mt-1 p-2 bg-green-100 rounded overflow-auto">
+              {signed.signature}
+            </pre>
+          </div>
+          <div className="grid grid-cols-1 gap-1 font-mono break-all">
+            <span>r: {signed.r}</span>
+            <span>s: {signed.s}</span>
+            <span>v: {signed.v}</span>
+          </div>
+          <div
+            className={`p-2 rounded text-sm ${
+              matches ? "bg-green-100 text-green-800" : "bg-red-100 text-red-700"
+            }`}
+          >
+            <strong>Recovered:</strong> {signed.signer}
+            <br />
+            {matches
+              ? `✅ Matches key ${signed.keyNo}`
+              : `❌ Does not match key ${signed.keyNo} (${verifiedAgainst})`}
+          </div>
+          <button
+            onClick={exportPayload}
+            className="w-full p-2 bg-white border border-green-300 hover:bg-green-100 text-green-800 font-semibold rounded-lg"
+          >
+            ⬇️ Export JSON
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
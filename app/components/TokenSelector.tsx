@@ -0,0 +1,44 @@
+"use client";
+
+import type { TokenOption } from "../lib/nexus";
+
+interface TokenSelectorProps {
+  options: TokenOption[];
+  value: string;
+  onChange: (symbol: string) => void;
+  disabled?: boolean;
+}
+
+export default function TokenSelector({
+  options,
+  value,
+  onChange,
+  disabled = false,
+}: TokenSelectorProps) {
+  const selected = options.find((option) => option.symbol === value);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Token
+      </label>
+      <div className="flex items-center gap-3 w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white">
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="flex-1 bg-transparent font-medium focus:outline-none"
+        >
+          {options.map((option) => (
+            <option key={option.symbol} value={option.symbol}>
+              {option.symbol} – {option.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          Balance: {selected?.balance || "0"} {value}
+        </span>
+      </div>
+    </div>
+  );
+}
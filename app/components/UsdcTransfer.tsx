@@ -2,32 +2,52 @@
 
 import { useState, useEffect } from "react";
 import { usePrivy } from "@privy-io/react-auth";
-import { useNexus } from "@avail-project/nexus";
 import type {
   TransferParams,
   TransferResult,
   SimulationResult,
-  UserAsset,
 } from "@avail-project/nexus";
-
-// Testnet chains supported by Nexus
-const SUPPORTED_CHAINS = [
-  { id: 11155420, name: "Optimism Sepolia", symbol: "ETH" },
-  { id: 80002, name: "Polygon Amoy", symbol: "MATIC" },
-  { id: 421614, name: "Arbitrum Sepolia", symbol: "ETH" },
-  { id: 84532, name: "Base Sepolia", symbol: "ETH" },
-];
-
-const TRANSFER_TOKEN = "USDC";
+import NexusStatusBanner from "./NexusStatusBanner";
+import ChainLogo from "./ChainLogo";
+import RealFundsConfirmation from "./RealFundsConfirmation";
+import TokenSelector from "./TokenSelector";
+import { useNexusStatus, useUnifiedBalances } from "./NexusSessionProvider";
+import { useNetwork } from "./NetworkProvider";
+import { useNexus } from "./NexusProvider";
+import { execHaloCmd } from "../lib/halo";
+import { resolveHaloRecipient, type HaloRecipient } from "../lib/halo-payment";
+import {
+  DEFAULT_TOKEN,
+  getAmountStep,
+  getTokenOptions,
+  hasTokenBalance,
+  isTokenSupportedOnChain,
+  toTokenAmount,
+  validateTokenAmount,
+} from "../lib/nexus";
+import type { ChainInfo } from "../lib/chains";
+
+// "address" pastes a 0x recipient, "halo" resolves it from a tapped tag
+type RecipientMode = "address" | "halo";
 
 export default function UsdcTransfer() {
   const { authenticated } = usePrivy();
-  const { sdk } = useNexus();
+  const { sdk, support } = useNexus();
+  const { chains, isMainnet } = useNetwork();
 
-  const [balances, setBalances] = useState<UserAsset[]>([]);
+  const { isReady: isInitialized } = useNexusStatus();
+  const { balances, invalidate: invalidateBalances } = useUnifiedBalances();
+  const [token, setToken] = useState<string>(DEFAULT_TOKEN);
   const [amount, setAmount] = useState<string>("");
   const [recipient, setRecipient] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(11155420); // Default to Optimism Sepolia
+  const [recipientMode, setRecipientMode] = useState<RecipientMode>("address");
+  const [haloRecipient, setHaloRecipient] = useState<HaloRecipient | null>(
+    null
+  );
+  const [scanningTag, setScanningTag] = useState(false);
+  // The page remounts the form on a network switch, so the first chain is
+  // always valid
+  const [chainId, setChainId] = useState<number>(chains[0].id);
   const [simulation, setSimulation] = useState<SimulationResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [transferring, setTransferring] = useState(false);
@@ -35,70 +55,42 @@ export default function UsdcTransfer() {
   const [transferResult, setTransferResult] = useState<TransferResult | null>(
     null
   );
-  const [isInitialized, setIsInitialized] = useState(false);
-
-  const checkInitialization = async () => {
-    if (!sdk) return false;
-
-    try {
-      // Try to call a method that would fail if not initialized
-      await sdk.getUnifiedBalances();
-      return true;
-    } catch (error) {
-      if (
-        error instanceof Error &&
-        error.message.includes("CA not initialized")
-      ) {
-        return false;
-      }
-      // If it's a different error, assume it's initialized but there's another issue
-      return true;
+  const [confirmingMainnet, setConfirmingMainnet] = useState(false);
+
+  const tokenOptions = getTokenOptions(balances, support);
+  const selectedToken =
+    tokenOptions.find((option) => option.symbol === token) ?? tokenOptions[0];
+  const amountError = validateTokenAmount(amount, selectedToken);
+  // What the SDK is sent, exact at the token's precision
+  const sdkAmount = amountError
+    ? null
+    : toTokenAmount(amount, selectedToken.decimals);
+  const isChainSupported = (chain: ChainInfo) =>
+    isTokenSupportedOnChain(selectedToken, chain, support);
+  const targetChain = chains.find((c) => c.id === chainId);
+
+  // Amounts are per token, and the target chain must accept the new token
+  const selectToken = (symbol: string) => {
+    const next = tokenOptions.find((option) => option.symbol === symbol);
+    if (!next) return;
+    setToken(symbol);
+    setAmount("");
+    setSimulation(null);
+    if (targetChain && !isTokenSupportedOnChain(next, targetChain, support)) {
+      const supported = chains.find((chain) =>
+        isTokenSupportedOnChain(next, chain, support)
+      );
+      if (supported) setChainId(supported.id);
     }
   };
 
-  // Check if SDK is initialized
-  useEffect(() => {
-    const checkInit = async () => {
-      if (sdk) {
-        const initialized = await checkInitialization();
-        setIsInitialized(initialized);
-      }
-    };
-
-    checkInit();
-
-    // Check periodically until initialized
-    const interval = setInterval(checkInit, 1000);
-
-    return () => clearInterval(interval);
-  }, [sdk]);
-
-  // Fetch balances when SDK becomes initialized
-  useEffect(() => {
-    const fetchBalances = async () => {
-      if (!authenticated || !sdk || !isInitialized) return;
-
-      try {
-        const unifiedBalances = await sdk.getUnifiedBalances();
-        setBalances(unifiedBalances);
-      } catch (error) {
-        console.error("Failed to fetch balances:", error);
-      }
-    };
-
-    if (isInitialized) {
-      fetchBalances();
-    }
-  }, [authenticated, sdk, isInitialized]);
-
   // Simulate transfer when parameters change
   useEffect(() => {
     const simulateTransfer = async () => {
       if (
         !sdk ||
         !isInitialized ||
-        !amount ||
-        parseFloat(amount) <= 0 ||
+        !sdkAmount ||
         !recipient ||
         !isValidAddress(recipient)
       ) {
@@ -111,8 +103,8 @@ export default function UsdcTransfer() {
 
       try {
         const result = await sdk.simulateTransfer({
-          token: TRANSFER_TOKEN,
-          amount: parseFloat(amount),
+          token: token as TransferParams["token"],
+          amount: sdkAmount,
           chainId: chainId as any,
           recipient: recipient,
         } as TransferParams);
@@ -129,21 +121,41 @@ export default function UsdcTransfer() {
     // Debounce simulation calls
     const timer = setTimeout(simulateTransfer, 500);
     return () => clearTimeout(timer);
-  }, [sdk, isInitialized, amount, recipient, chainId]);
+  }, [sdk, isInitialized, token, sdkAmount, recipient, chainId]);
 
   const isValidAddress = (address: string): boolean => {
     return /^0x[a-fA-F0-9]{40}$/.test(address);
   };
 
+  const selectRecipientMode = (mode: RecipientMode) => {
+    setRecipientMode(mode);
+    setRecipient("");
+    setHaloRecipient(null);
+  };
+
+  // One tap reads the tag's keys, the owner is looked up on-chain
+  const scanRecipientTag = async () => {
+    setScanningTag(true);
+    setError("");
+    setRecipient("");
+    setHaloRecipient(null);
+    try {
+      const { etherAddresses } = await execHaloCmd({ name: "get_pkeys" });
+      const resolved = await resolveHaloRecipient(etherAddresses, chainId);
+      setHaloRecipient(resolved);
+      setRecipient(resolved.address);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to read the HaLo tag"
+      );
+    } finally {
+      setScanningTag(false);
+    }
+  };
+
   const handleTransfer = async () => {
-    if (
-      !sdk ||
-      !amount ||
-      parseFloat(amount) <= 0 ||
-      !recipient ||
-      !isValidAddress(recipient)
-    )
-      return;
+    setConfirmingMainnet(false);
+    if (!sdk || !sdkAmount || !recipient || !isValidAddress(recipient)) return;
 
     setTransferring(true);
     setError("");
@@ -151,8 +163,8 @@ export default function UsdcTransfer() {
 
     try {
       const result: TransferResult = await sdk.transfer({
-        token: TRANSFER_TOKEN,
-        amount: parseFloat(amount),
+        token: token as TransferParams["token"],
+        amount: sdkAmount,
         chainId: chainId as any,
         recipient: recipient,
       } as TransferParams);
@@ -168,11 +180,11 @@ export default function UsdcTransfer() {
         // Reset form on success
         setAmount("");
         setRecipient("");
+        setHaloRecipient(null);
         setSimulation(null);
 
-        // Refresh balances
-        const updatedBalances = await sdk.getUnifiedBalances();
-        setBalances(updatedBalances);
+        // Balances moved, refetch them for every Nexus view
+        invalidateBalances();
       } else {
         console.error("❌ Transfer failed:", result.error);
         setError(result.error || "Transfer operation failed");
@@ -187,56 +199,41 @@ export default function UsdcTransfer() {
     }
   };
 
-  const usdcBalance = balances.find((b) => b.symbol === TRANSFER_TOKEN);
-  const maxAmount = usdcBalance ? parseFloat(usdcBalance.balance) : 0;
+  const hasBalance = hasTokenBalance(
+    selectedToken.balance,
+    selectedToken.decimals
+  );
 
   if (!authenticated) {
     return (
       <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
         <p className="text-yellow-800 dark:text-yellow-200">
-          🔐 Please connect your wallet to use USDC transfer
+          🔐 Please connect your wallet to use token transfers
         </p>
       </div>
     );
   }
 
   if (!isInitialized) {
-    return (
-      <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-        <div className="flex items-center space-x-2">
-          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-          <p className="text-blue-800 dark:text-blue-200">
-            🔄 Initializing Nexus SDK... Please sign the transaction in your
-            wallet if prompted.
-          </p>
-        </div>
-      </div>
-    );
+    return <NexusStatusBanner />;
   }
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-6">
       <div className="flex items-center mb-6">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-          💸 USDC Transfer
+          💸 Token Transfer
         </h2>
       </div>
 
       <div className="space-y-4">
-        {/* Token Display */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Token
-          </label>
-          <div className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white">
-            <div className="flex items-center justify-between">
-              <span className="font-medium">USDC</span>
-              <span className="text-sm text-gray-500 dark:text-gray-400">
-                Balance: {usdcBalance?.balance || "0.00"} USDC
-              </span>
-            </div>
-          </div>
-        </div>
+        {/* Token Selector */}
+        <TokenSelector
+          options={tokenOptions}
+          value={selectedToken.symbol}
+          onChange={selectToken}
+          disabled={transferring}
+        />
 
         {/* Amount Input */}
         <div>
@@ -249,46 +246,96 @@ export default function UsdcTransfer() {
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               placeholder="0.00"
-              step="0.000001"
+              step={getAmountStep(selectedToken.decimals)}
               min="0"
-              max={maxAmount}
+              max={selectedToken.balance}
               className="w-full p-3 pr-16 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
             <button
-              onClick={() => setAmount(maxAmount.toString())}
-              disabled={maxAmount <= 0}
+              onClick={() => setAmount(selectedToken.balance)}
+              disabled={!hasBalance}
               className="absolute right-2 top-1/2 transform -translate-y-1/2 text-blue-600 hover:text-blue-800 disabled:text-gray-400 text-sm font-medium"
             >
               MAX
             </button>
           </div>
-          {usdcBalance && (
+          {amountError ? (
+            <p className="text-sm text-red-600 dark:text-red-400 mt-1">
+              {amountError}
+            </p>
+          ) : (
             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-              Available: {usdcBalance.balance} USDC
+              Available: {selectedToken.balance} {token}
             </p>
           )}
         </div>
 
-        {/* Recipient Address */}
+        {/* Recipient */}
         <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Recipient Address
-          </label>
-          <input
-            type="text"
-            value={recipient}
-            onChange={(e) => setRecipient(e.target.value)}
-            placeholder="0x..."
-            className={`w-full p-3 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-              recipient && !isValidAddress(recipient)
-                ? "border-red-300 dark:border-red-600"
-                : "border-gray-300 dark:border-gray-600"
-            }`}
-          />
-          {recipient && !isValidAddress(recipient) && (
-            <p className="text-sm text-red-600 dark:text-red-400 mt-1">
-              Please enter a valid Ethereum address
-            </p>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Recipient
+            </label>
+            <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-1 text-sm">
+              {(["address", "halo"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => selectRecipientMode(mode)}
+                  disabled={transferring || scanningTag}
+                  className={`px-3 py-1 rounded-md font-medium transition-colors ${
+                    recipientMode === mode
+                      ? "bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow"
+                      : "text-gray-600 dark:text-gray-300"
+                  }`}
+                >
+                  {mode === "address" ? "Address" : "📲 Tap HaLo"}
+                </button>
+              ))}
+            </div>
+          </div>
+          {recipientMode === "halo" ? (
+            <div className="space-y-2">
+              <button
+                onClick={scanRecipientTag}
+                disabled={scanningTag || transferring}
+                className="w-full p-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white font-medium rounded-lg transition-colors"
+              >
+                {scanningTag
+                  ? "Hold the recipient's HaLo tag near the device..."
+                  : haloRecipient
+                    ? "📲 Tap another tag"
+                    : "📲 Tap the recipient's HaLo tag"}
+              </button>
+              {haloRecipient && (
+                <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+                  <p className="font-mono break-all">{haloRecipient.address}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {haloRecipient.source === "registration"
+                      ? `Owner of key ${haloRecipient.keyNo}, registered on ${haloRecipient.deployment?.chain.name}`
+                      : `Tag not registered, sending to its key ${haloRecipient.keyNo} address`}
+                  </p>
+                </div>
+              )}
+            </div>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="0x..."
+                className={`w-full p-3 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  recipient && !isValidAddress(recipient)
+                    ? "border-red-300 dark:border-red-600"
+                    : "border-gray-300 dark:border-gray-600"
+                }`}
+              />
+              {recipient && !isValidAddress(recipient) && (
+                <p className="text-sm text-red-600 dark:text-red-400 mt-1">
+                  Please enter a valid Ethereum address
+                </p>
+              )}
+            </>
           )}
         </div>
 
@@ -302,9 +349,15 @@ export default function UsdcTransfer() {
             onChange={(e) => setChainId(parseInt(e.target.value))}
             className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            {SUPPORTED_CHAINS.map((chain) => (
-              <option key={chain.id} value={chain.id}>
-                {chain.name} ({chain.symbol})
+            {chains.map((chain) => (
+              <option
+                key={chain.id}
+                value={chain.id}
+                disabled={!isChainSupported(chain)}
+              >
+                {`${chain.name} (${chain.nativeCurrency.symbol})${
+                  isChainSupported(chain) ? "" : ` – no ${token}`
+                }`}
               </option>
             ))}
           </select>
@@ -328,14 +381,13 @@ export default function UsdcTransfer() {
               📊 Transfer Preview
             </h3>
             <div className="space-y-1 text-sm text-green-700 dark:text-green-300">
-              <p>Amount to send: {amount} USDC</p>
               <p>
-                Recipient: {recipient.slice(0, 6)}...{recipient.slice(-4)}
+                Amount to send: {amount} {token}
               </p>
               <p>
-                Target chain:{" "}
-                {SUPPORTED_CHAINS.find((c) => c.id === chainId)?.name}
+                Recipient: {recipient.slice(0, 6)}...{recipient.slice(-4)}
               </p>
+              <p>Target chain: {targetChain?.name}</p>
               {(simulation as any).estimatedGas && (
                 <p>Estimated gas: {(simulation as any).estimatedGas}</p>
               )}
@@ -379,9 +431,9 @@ export default function UsdcTransfer() {
               {transferResult.success ? (
                 <>
                   <p>
-                    Your USDC has been successfully transferred to{" "}
+                    Your {token} has been successfully transferred to{" "}
                     {recipient.slice(0, 6)}...{recipient.slice(-4)} on{" "}
-                    {SUPPORTED_CHAINS.find((c) => c.id === chainId)?.name}!
+                    {targetChain?.name}!
                   </p>
                   {transferResult.explorerUrl && (
                     <div className="mt-2">
@@ -427,54 +479,64 @@ export default function UsdcTransfer() {
         )}
 
         {/* Transfer Button */}
-        <button
-          onClick={handleTransfer}
-          disabled={
-            !amount ||
-            parseFloat(amount) <= 0 ||
-            parseFloat(amount) > maxAmount ||
-            !recipient ||
-            !isValidAddress(recipient) ||
-            transferring ||
-            loading ||
-            maxAmount <= 0
-          }
-          className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors"
-        >
-          {transferring ? (
-            <div className="flex items-center justify-center space-x-2">
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-              <span>Transferring...</span>
-            </div>
-          ) : (
-            `Transfer ${amount || "0"} USDC to ${
-              recipient
-                ? `${recipient.slice(0, 6)}...${recipient.slice(-4)}`
-                : "recipient"
-            }`
-          )}
-        </button>
+        {confirmingMainnet ? (
+          <RealFundsConfirmation
+            summary={`Transfer ${amount} ${token} to ${recipient} on ${targetChain?.name}`}
+            onConfirm={handleTransfer}
+            onCancel={() => setConfirmingMainnet(false)}
+          />
+        ) : (
+          <button
+            onClick={() =>
+              isMainnet ? setConfirmingMainnet(true) : handleTransfer()
+            }
+            disabled={
+              !amount ||
+              !!amountError ||
+              !targetChain ||
+              !isChainSupported(targetChain) ||
+              !recipient ||
+              !isValidAddress(recipient) ||
+              transferring ||
+              loading
+            }
+            className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors"
+          >
+            {transferring ? (
+              <div className="flex items-center justify-center space-x-2">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                <span>Transferring...</span>
+              </div>
+            ) : (
+              `Transfer ${amount || "0"} ${token} to ${
+                recipient
+                  ? `${recipient.slice(0, 6)}...${recipient.slice(-4)}`
+                  : "recipient"
+              }`
+            )}
+          </button>
+        )}
       </div>
 
       {/* Info Section */}
       <div className="mt-6 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
         <p className="text-blue-800 dark:text-blue-200 text-sm">
-          💡 <strong>Testnet Transfer:</strong> Nexus will automatically route
-          your USDC from the best available source chain to the target chain and
-          recipient address. The transfer may involve cross-chain bridging if
-          needed.
+          💡 <strong>{isMainnet ? "Mainnet" : "Testnet"} Transfer:</strong>{" "}
+          Nexus will automatically route your {token} from the best available
+          source chain to the target chain and recipient address. The transfer
+          may involve cross-chain bridging if needed.
         </p>
       </div>
 
       {/* Supported Chains Info */}
       <div className="mt-4 bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
         <h4 className="font-medium text-gray-900 dark:text-white mb-2">
-          🔗 Supported Testnet Chains
+          🔗 Supported {isMainnet ? "Mainnet" : "Testnet"} Chains
         </h4>
         <div className="grid grid-cols-2 gap-2 text-sm text-gray-600 dark:text-gray-400">
-          {SUPPORTED_CHAINS.map((chain) => (
+          {chains.map((chain) => (
             <div key={chain.id} className="flex items-center space-x-2">
-              <span className="text-green-500">✅</span>
+              <ChainLogo chain={chain} />
               <span>{chain.name}</span>
             </div>
           ))}
@@ -2,39 +2,38 @@
 
 import { useEffect } from "react";
 import { usePrivy, useWallets } from "@privy-io/react-auth";
-import { useNexus } from "@avail-project/nexus";
+import { useNexus } from "./NexusProvider";
+import { useNexusInitialization } from "./NexusSessionProvider";
 
 export default function WalletBridge() {
   const { authenticated } = usePrivy();
   const { wallets } = useWallets();
-  const { setProvider, sdk } = useNexus();
+  const { sdk } = useNexus();
+  const { trackInitialization, reset } = useNexusInitialization();
+
+  // Get the first embedded wallet
+  const wallet = authenticated ? wallets[0] : undefined;
 
   useEffect(() => {
-    const connectProvider = async () => {
-      if (authenticated && wallets.length > 0 && sdk) {
-        try {
-          // Get the first embedded wallet
-          const wallet = wallets[0];
-          // Get the Ethereum provider from the wallet
-          const provider = await wallet.getEthereumProvider();
-          if (provider) {
-            // Set the provider in Nexus
-            setProvider(provider);
-            console.log("✅ Nexus connected to Privy wallet provider");
+    if (!wallet) {
+      reset();
+      return;
+    }
+    if (!sdk) return;
 
-            // Initialize the SDK from context with the provider
-            // This will ask user to sign for CA initialization
-            await sdk.initialize(provider);
-            console.log("✅ Nexus SDK initialized with CA signature");
-          }
-        } catch (error) {
-          console.error("❌ Failed to connect Nexus to Privy provider:", error);
-        }
+    // A new SDK after a network switch starts a new session
+    trackInitialization(sdk, wallet.address, async () => {
+      // Get the Ethereum provider from the wallet
+      const provider = await wallet.getEthereumProvider();
+      if (!provider) {
+        throw new Error("The wallet did not provide an Ethereum provider");
       }
-    };
-
-    connectProvider();
-  }, [authenticated, wallets, setProvider, sdk]);
+      // Initialize the SDK from context with the provider
+      // This will ask user to sign for CA initialization
+      await sdk.initialize(provider);
+      console.log("✅ Nexus SDK initialized with CA signature");
+    });
+  }, [wallet, sdk, trackInitialization, reset]);
 
   return null; // This component doesn't render anything
 }
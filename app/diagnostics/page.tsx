@@ -0,0 +1,257 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import {
+  getHaloExecutor,
+  readHaloDiagnostics,
+  type HaloDiagnostics,
+} from "../lib/halo";
+import {
+  getSlotRegistrationsOnAllDeployments,
+  type DeploymentSlotRegistrations,
+} from "../lib/halo-payment";
+import { getExplorerAddressUrl } from "../lib/chains";
+
+const shorten = (value: string, chars = 4) =>
+  `${value.slice(0, chars + 2)}...${value.slice(-chars)}`;
+
+const STEP_STATUS = {
+  keys: "Tap the HaLo tag to read its keys...",
+  data: "Tap the HaLo tag again to read chip data and counters...",
+};
+
+export default function HaloDiagnosticsPage() {
+  const [diagnostics, setDiagnostics] = useState<HaloDiagnostics | null>(null);
+  const [registrations, setRegistrations] = useState<
+    DeploymentSlotRegistrations[]
+  >([]);
+  const [status, setStatus] = useState<string>("");
+  const [isReading, setIsReading] = useState<boolean>(false);
+  const [error, setError] = useState<string>("");
+
+  const executor = getHaloExecutor();
+
+  const runDiagnostics = async () => {
+    setIsReading(true);
+    setError("");
+    setDiagnostics(null);
+    setRegistrations([]);
+    try {
+      const result = await readHaloDiagnostics(executor, (step) =>
+        setStatus(STEP_STATUS[step])
+      );
+      setDiagnostics(result);
+
+      setStatus("Looking up registrations on every chain...");
+      setRegistrations(
+        await getSlotRegistrationsOnAllDeployments(
+          Object.fromEntries(
+            result.slots.map(({ keyNo, address }) => [keyNo, address])
+          )
+        )
+      );
+      setStatus("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the tag");
+      setStatus("");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-100 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-xl shadow-xl p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-800 mb-4">
+              🩺 HaLo Diagnostics
+            </h1>
+            <p className="text-lg text-gray-600">
+              Key inventory, chip data and registrations of a HaLo tag
+            </p>
+            <Link
+              href="/halo-scanner"
+              className="text-sm text-indigo-600 hover:underline"
+            >
+              ← Back to the scanner
+            </Link>
+          </div>
+
+          {executor.kind === "emulator" && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg mb-4 text-sm text-yellow-800">
+              Using the HaLo emulator, results come from software keys.
+            </div>
+          )}
+
+          <button
+            onClick={runDiagnostics}
+            disabled={isReading || !executor.isSupported()}
+            className="w-full p-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors mb-4"
+          >
+            {isReading ? "Reading..." : "🔍 Run diagnostics"}
+          </button>
+          {!executor.isSupported() && (
+            <p className="text-sm text-red-600 mb-4">
+              NFC is not supported on this device/browser.
+            </p>
+          )}
+
+          {status && (
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg mb-4 text-gray-700">
+              {status}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg mb-4">
+              <p className="text-red-700">❌ {error}</p>
+            </div>
+          )}
+
+          {diagnostics && (
+            <>
+              {/* Chip */}
+              <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg mb-4">
+                <h3 className="font-semibold text-gray-800 mb-2">Chip</h3>
+                <dl className="grid grid-cols-2 gap-2 text-sm">
+                  <dt className="text-gray-500">Firmware</dt>
+                  <dd className="text-gray-900 font-mono break-all">
+                    {diagnostics.firmwareVersion ?? "Not reported"}
+                  </dd>
+                  <dt className="text-gray-500">Key slots</dt>
+                  <dd className="text-gray-900">{diagnostics.slots.length}</dd>
+                  <dt className="text-gray-500">Read at</dt>
+                  <dd className="text-gray-900">
+                    {new Date(diagnostics.readAt).toLocaleString()}
+                  </dd>
+                </dl>
+                {diagnostics.isPartial && (
+                  <p className="mt-2 text-sm text-yellow-700">
+                    ⚠️ The chip returned a partial response, some fields are
+                    missing.
+                  </p>
+                )}
+                {diagnostics.dataStructError && (
+                  <p className="mt-2 text-sm text-yellow-700">
+                    ⚠️ Chip data unavailable: {diagnostics.dataStructError}
+                  </p>
+                )}
+              </div>
+
+              {/* Key Slots */}
+              <div className="overflow-x-auto mb-6">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-2">Slot</th>
+                      <th className="py-2 pr-2">Address</th>
+                      <th className="py-2 pr-2">Public key</th>
+                      <th className="py-2 pr-2">Flags</th>
+                      <th className="py-2">Failed auth counter</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diagnostics.slots.map((slot) => (
+                      <tr key={slot.keyNo} className="border-b last:border-0">
+                        <td className="py-2 pr-2 font-semibold">{slot.keyNo}</td>
+                        <td className="py-2 pr-2 font-mono">
+                          {shorten(slot.address)}
+                        </td>
+                        <td
+                          className="py-2 pr-2 font-mono"
+                          title={slot.publicKey}
+                        >
+                          {slot.publicKey ? shorten(slot.publicKey, 8) : "—"}
+                          {slot.publicKeyMatches === false && (
+                            <span className="ml-1 text-red-600">
+                              ❌ does not derive the address
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-2 font-mono">
+                          {slot.flags === undefined
+                            ? "—"
+                            : JSON.stringify(slot.flags)}
+                        </td>
+                        <td
+                          className={`py-2 ${
+                            slot.failedAuthCounter ? "text-red-600 font-semibold" : ""
+                          }`}
+                        >
+                          {slot.failedAuthCounter ?? "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="mt-2 text-xs text-gray-500">
+                  Signature counters are not shown: libhalo has no command or
+                  data object that reports how many signatures a slot has
+                  made. The failed auth counter counts rejected password
+                  attempts on password protected slots.
+                </p>
+              </div>
+
+              {/* Registrations */}
+              {registrations.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="font-semibold text-gray-800">
+                    HaloPayment registrations
+                  </h3>
+                  {registrations.map(({ deployment, registrations, error }) => (
+                    <div
+                      key={deployment.chain.id}
+                      className="p-4 bg-blue-50 border border-blue-200 rounded-lg"
+                    >
+                      <h4 className="font-semibold text-blue-800 mb-2">
+                        {deployment.chain.name}
+                      </h4>
+                      {error ? (
+                        <p className="text-sm text-red-600">❌ {error}</p>
+                      ) : (
+                        <ul className="space-y-1 text-sm">
+                          {registrations?.map(({ keyNo, payer }) => {
+                            const url = payer
+                              ? getExplorerAddressUrl(deployment.chain.id, payer)
+                              : null;
+                            return (
+                              <li key={keyNo} className="text-blue-900">
+                                Key {keyNo}:{" "}
+                                {payer ? (
+                                  url ? (
+                                    <a
+                                      href={url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="font-mono text-indigo-600 hover:underline"
+                                    >
+                                      {shorten(payer)}
+                                    </a>
+                                  ) : (
+                                    <span className="font-mono">
+                                      {shorten(payer)}
+                                    </span>
+                                  )
+                                ) : (
+                                  <span className="text-gray-500">
+                                    Not registered
+                                  </span>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,77 +1,163 @@
 "use client";
 
-import { useState } from "react";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { formatEther, type Address, type Hash } from "viem";
+import { useWallets, type ConnectedWallet } from "@privy-io/react-auth";
+import { execHaloCmd, getHaloExecutor } from "../lib/halo";
+import { formatUsdc } from "../lib/pos/cart";
+import PointOfSale from "../components/PointOfSale";
+import AllowanceManager from "../components/AllowanceManager";
+import MyHaloTag from "../components/MyHaloTag";
+import OnboardingWizard from "../components/OnboardingWizard";
+import SettlementQueue from "../components/SettlementQueue";
+import SigningConsole from "../components/SigningConsole";
+import { useHaloSession } from "../components/HaloSessionProvider";
 import {
-  createPublicClient,
-  http,
-  formatEther,
-  parseAbi,
-  createWalletClient,
-  custom,
-} from "viem";
-import { sepolia } from "viem/chains";
-import { recoverMessageAddress } from "viem";
-import { useWallets } from "@privy-io/react-auth";
-
-interface HaloCommand {
-  name: string;
-  [key: string]: any;
-}
+  allocateNonce,
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  describeHaloPaymentError,
+  erc20Abi,
+  findRegisteredSlot,
+  generateNonce,
+  getDeployment,
+  getReceiptPath,
+  isNonceCollision,
+  listDeployments,
+  NonceCollisionError,
+  type NonceStrategy,
+} from "../lib/halo-payment";
+import { fetchRelayerStatus, submitRelayedPayment } from "../lib/relayer/client";
+import type { RelayerStatus, SubmitMode } from "../lib/relayer/types";
+import {
+  enqueuePayment,
+  findCachedSlot,
+  rememberPayer,
+} from "../lib/settlement";
+import {
+  createWalletHaloPaymentClient,
+  ensureWalletChain,
+  getPrivyWallet,
+  getWalletChainId,
+} from "../lib/wallet";
 
-interface HaloResult {
-  etherAddresses?: { [key: string]: string };
-  [key: string]: any;
-}
+// "random" for plain 256-bit nonces, "terminal" to namespace them per device
+const NONCE_STRATEGY: NonceStrategy =
+  process.env.NEXT_PUBLIC_HALO_NONCE_STRATEGY === "terminal"
+    ? "terminal"
+    : "random";
+
+// How many times a payment is re-signed after losing a nonce race
+const MAX_PAYMENT_ATTEMPTS = 3;
+
+// Slots offered before a tag has been scanned
+const DEFAULT_KEY_SLOTS = ["1", "2", "3"];
 
 interface AddressInfo {
   key: string;
-  address: string;
+  address: Address;
   balance?: string;
   isRegistered?: boolean;
-  usdcAllowance?: string;
+  usdcAllowance?: bigint;
   registeredBy?: string;
-  payerUsdcBalance?: string;
+  payerUsdcBalance?: bigint;
 }
 
-export default function SepoliaPage() {
+export default function HaloScannerPage() {
   const [status, setStatus] = useState<string>("Ready to read addresses");
   const [error, setError] = useState<string>("");
   const [addresses, setAddresses] = useState<AddressInfo[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [signature, setSignature] = useState<string>("");
-  const [recoveredAddress, setRecoveredAddress] = useState<string>("");
   const [paymentStatus, setPaymentStatus] = useState<string>("");
-  const [registrationStatus, setRegistrationStatus] = useState<string>("");
+  // Receipt link shown after a successful payment
+  const [receiptPath, setReceiptPath] = useState<string>("");
 
-  const { wallets } = useWallets();
+  // Key slot used for registration and signing
+  const [selectedKeyNo, setSelectedKeyNo] = useState<string>("1");
 
-  const SEPOLIA_RPC_URL = "https://sepolia.drpc.org";
-  const publicClient = createPublicClient({
-    chain: sepolia,
-    transport: http(SEPOLIA_RPC_URL),
+  const [submitMode, setSubmitMode] = useState<SubmitMode>("self");
+  const [relayerStatus, setRelayerStatus] = useState<RelayerStatus>({
+    enabled: false,
   });
+  // Capture signed payments locally and settle them once back online
+  const [offlineMode, setOfflineMode] = useState<boolean>(false);
 
-  // Contract addresses on Sepolia testnet
-  const USDC_CONTRACT_ADDRESS =
-    "0x1c7d4b196cb0c7b01d743fbc6116a902379c7238" as const;
-  const HALO_PAYMENT_CONTRACT_ADDRESS =
-    "0xEC0250Af17481f9cB405081D49Fb9228769B3092" as const;
-
-  // Contract ABIs
-  const USDC_ABI = parseAbi([
-    "function allowance(address owner, address spender) view returns (uint256)",
-    "function decimals() view returns (uint8)",
-    "function balanceOf(address account) view returns (uint256)",
-    "function approve(address spender, uint256 amount) external returns (bool)",
-  ]);
-
-  const HALO_PAYMENT_ABI = parseAbi([
-    "function getPayerFromHaloAddress(address haloAddress) view returns (address)",
-    "function getAuthorizedHaloAddress(address user) view returns (address)",
-    "function executePaymentFromHalo(address haloAddress, address merchant, uint256 amount, uint256 nonce, bytes calldata signature) external",
-    "function getPaymentMessageHash(address payer, address merchant, uint256 amount, uint256 nonce) view returns (bytes32)",
-    "function registerHaloAddress(address haloAddress) external",
-  ]);
+  const { wallets } = useWallets();
+  const connectedWallet = getPrivyWallet(wallets);
+  const {
+    session: haloSession,
+    isHaloOnly,
+    can,
+    chainId,
+    setChainId,
+  } = useHaloSession();
+
+  const deployment = getDeployment(chainId);
+  const publicClient = useMemo(
+    () => createDeploymentPublicClient(deployment),
+    [deployment]
+  );
+  const haloPayment = createHaloPaymentClient({
+    address: deployment.haloPayment,
+    publicClient,
+  });
+
+  const isOwnRegistration = (registeredBy?: string) =>
+    !!connectedWallet &&
+    !!registeredBy &&
+    registeredBy.toLowerCase() === connectedWallet.address.toLowerCase();
+
+  const walletOnWrongChain =
+    !!connectedWallet && getWalletChainId(connectedWallet) !== chainId;
+
+  // Payment client that sends transactions from the connected Privy wallet
+  const getWalletHaloPayment = (wallet: ConnectedWallet) =>
+    createWalletHaloPaymentClient(wallet, deployment, publicClient);
+
+  // Offer relaying only where the server has a relayer for this chain
+  useEffect(() => {
+    let cancelled = false;
+    fetchRelayerStatus(chainId).then((status) => {
+      if (cancelled) return;
+      setRelayerStatus(status);
+      setSubmitMode(status.enabled ? "relay" : "self");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [chainId]);
+
+  useEffect(() => {
+    if (!navigator.onLine) setOfflineMode(true);
+    const handleOffline = () => setOfflineMode(true);
+    const handleOnline = () => setOfflineMode(false);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener("online", handleOnline);
+    return () => {
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener("online", handleOnline);
+    };
+  }, []);
+
+  const selectChain = (nextChainId: number) => {
+    setChainId(nextChainId);
+    setAddresses([]);
+    setPaymentStatus("");
+    setReceiptPath("");
+    setError("");
+  };
+
+  const switchWalletChain = async () => {
+    if (!connectedWallet) return;
+    try {
+      await ensureWalletChain(connectedWallet, chainId);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to switch wallet network"
+      );
+    }
+  };
 
   const readAddressesAndBalances = async () => {
     setIsLoading(true);
@@ -79,14 +165,10 @@ export default function SepoliaPage() {
     setStatus("Preparing NFC scan...");
     setAddresses([]);
     try {
-      if (!("NDEFReader" in window) && !navigator.credentials) {
-        throw new Error("NFC not supported on this device/browser");
-      }
       setStatus(
         "Scanning NFC tag... Please hold your HaLo tag near the device"
       );
-      const { execHaloCmdWeb } = await import("@arx-research/libhalo/api/web");
-      const result: HaloResult = await execHaloCmdWeb({ name: "get_pkeys" });
+      const result = await execHaloCmd({ name: "get_pkeys" });
       if (!result.etherAddresses) {
         throw new Error("No addresses found on HaLo tag");
       }
@@ -97,52 +179,37 @@ export default function SepoliaPage() {
         entries.map(async ([key, address]) => {
           try {
             // Get ETH balance
-            const balanceWei = await publicClient.getBalance({
-              address: address as `0x${string}`,
-            });
+            const balanceWei = await publicClient.getBalance({ address });
             const balance = formatEther(balanceWei);
 
             // Check if this HaLo address is registered in the contract
             let isRegistered = false;
             let registeredBy = "";
-            let usdcAllowance = "0";
-            let payerUsdcBalance = "0";
+            let usdcAllowance = BigInt(0);
+            let payerUsdcBalance = BigInt(0);
 
             try {
-              const registeredUser = await publicClient.readContract({
-                address: HALO_PAYMENT_CONTRACT_ADDRESS,
-                abi: HALO_PAYMENT_ABI,
-                functionName: "getPayerFromHaloAddress",
-                args: [address as `0x${string}`],
-              });
-
-              if (
-                registeredUser &&
-                registeredUser !== "0x0000000000000000000000000000000000000000"
-              ) {
+              const registeredUser =
+                await haloPayment.getPayerFromHaloAddress(address);
+              rememberPayer(chainId, address, registeredUser);
+
+              if (registeredUser) {
                 isRegistered = true;
-                registeredBy = registeredUser as string;
+                registeredBy = registeredUser;
 
                 // Check USDC allowance for the registered user
-                const allowance = await publicClient.readContract({
-                  address: USDC_CONTRACT_ADDRESS,
-                  abi: USDC_ABI,
-                  functionName: "allowance",
-                  args: [
-                    registeredUser as `0x${string}`,
-                    HALO_PAYMENT_CONTRACT_ADDRESS,
-                  ],
-                });
-                usdcAllowance = (Number(allowance) / 1000000).toString(); // USDC has 6 decimals
+                usdcAllowance = await haloPayment.getAllowance(
+                  registeredUser,
+                  deployment.usdc
+                );
 
                 // Check USDC balance for the registered user
-                const payerBalance = await publicClient.readContract({
-                  address: USDC_CONTRACT_ADDRESS,
-                  abi: USDC_ABI,
+                payerUsdcBalance = await publicClient.readContract({
+                  address: deployment.usdc,
+                  abi: erc20Abi,
                   functionName: "balanceOf",
-                  args: [registeredUser as `0x${string}`],
+                  args: [registeredUser],
                 });
-                payerUsdcBalance = (Number(payerBalance) / 1000000).toString(); // USDC has 6 decimals
               }
             } catch (contractError) {
               console.log(
@@ -167,57 +234,24 @@ export default function SepoliaPage() {
               balance: "Error",
               isRegistered: false,
               registeredBy: "",
-              usdcAllowance: "0",
-              payerUsdcBalance: "0",
+              usdcAllowance: BigInt(0),
+              payerUsdcBalance: BigInt(0),
             };
           }
         })
       );
       setAddresses(addressInfos);
-      setStatus("Addresses, balances, and HaLo registrations loaded.");
-    } catch (err: any) {
-      setError(err.message || "Unknown error");
-      setStatus("Ready to read addresses");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const signHelloWorld = async (keyNo: string) => {
-    setIsLoading(true);
-    setError("");
-    setSignature("");
-    setRecoveredAddress("");
-    setStatus(`Signing 'Hello World' with key ${keyNo}...`);
-    try {
-      if (!("NDEFReader" in window) && !navigator.credentials) {
-        throw new Error("NFC not supported on this device/browser");
-      }
-      setStatus(
-        `Scanning NFC tag... Please hold your HaLo tag near the device to sign with key ${keyNo}`
-      );
-      const { execHaloCmdWeb } = await import("@arx-research/libhalo/api/web");
-      const result = await execHaloCmdWeb({
-        name: "sign",
-        message: "Hello World",
-        format: "text",
-        keyNo,
-      });
-      if (!result.signature || !result.signature.ether) {
-        throw new Error("No signature received from HaLo tag");
-      }
-      setSignature(result.signature.ether);
-      setStatus(`Message signed successfully with key ${keyNo}!`);
-      // Recover address from signature
-      try {
-        const address = await recoverMessageAddress({
-          message: "Hello World",
-          signature: result.signature.ether,
-        });
-        setRecoveredAddress(address);
-      } catch (e) {
-        setRecoveredAddress("(Failed to recover address)");
+      // Preselect the slot registered to this wallet, else the first free one
+      const preferred =
+        addressInfos.find(({ registeredBy }) =>
+          isOwnRegistration(registeredBy)
+        ) ??
+        addressInfos.find(({ isRegistered }) => !isRegistered) ??
+        addressInfos[0];
+      if (preferred) {
+        setSelectedKeyNo(preferred.key);
       }
+      setStatus("Addresses, balances, and HaLo registrations loaded.");
     } catch (err: any) {
       setError(err.message || "Unknown error");
       setStatus("Ready to read addresses");
@@ -226,206 +260,227 @@ export default function SepoliaPage() {
     }
   };
 
-  const executePayment = async () => {
-    if (!addresses.length) {
-      setError("No HaLo addresses found. Please scan a tag first.");
-      return;
-    }
-
-    const connectedWallet = wallets.find(
-      (wallet) => wallet.walletClientType === "privy"
-    );
+  // Offline counterpart of executePayment: everything is computed locally and
+  // the signed payment goes to the settlement queue
+  const capturePaymentOffline = async (amount: bigint) => {
     if (!connectedWallet) {
       setError("No wallet connected. Please connect your wallet first.");
-      return;
-    }
-
-    const firstAddress = addresses[0];
-    if (!firstAddress.isRegistered) {
-      setError("First HaLo address is not registered for payments.");
-      return;
-    }
-
-    if (
-      !firstAddress.usdcAllowance ||
-      parseFloat(firstAddress.usdcAllowance) < 1
-    ) {
-      setError("Insufficient USDC allowance for payment.");
-      return;
-    }
-
-    if (
-      !firstAddress.payerUsdcBalance ||
-      parseFloat(firstAddress.payerUsdcBalance) < 1
-    ) {
-      setError("Payer has insufficient USDC balance for payment.");
-      return;
+      return false;
     }
 
     setIsLoading(true);
     setError("");
-    setPaymentStatus("Preparing payment...");
+    setPaymentStatus("Tap the customer's HaLo tag to identify the payer...");
 
     try {
-      // Get merchant address from connected wallet
-      const merchantAddress = connectedWallet.address;
-      const haloAddress = firstAddress.address as `0x${string}`;
-      const amount = 1000000; // 1 USDC (6 decimals)
-      const nonce = Date.now(); // Simple nonce using timestamp
-
-      // Get the payer address from the contract
-      const payerAddress = await publicClient.readContract({
-        address: HALO_PAYMENT_CONTRACT_ADDRESS,
-        abi: HALO_PAYMENT_ABI,
-        functionName: "getPayerFromHaloAddress",
-        args: [haloAddress],
-      });
-
-      if (
-        !payerAddress ||
-        payerAddress === "0x0000000000000000000000000000000000000000"
-      ) {
-        throw new Error("Could not find payer address for HaLo address");
+      const merchantAddress = connectedWallet.address as Address;
+      const { etherAddresses } = await execHaloCmd({ name: "get_pkeys" });
+      const slot = findCachedSlot(chainId, etherAddresses);
+      if (!slot) {
+        throw new Error(
+          "This HaLo tag has not been seen online on this device yet, so its payer is unknown. Take this payment once you are back online."
+        );
       }
+      const { keyNo, haloAddress, payer } = slot;
 
-      // Get the message hash that needs to be signed
-      const messageHash = await publicClient.readContract({
-        address: HALO_PAYMENT_CONTRACT_ADDRESS,
-        abi: HALO_PAYMENT_ABI,
-        functionName: "getPaymentMessageHash",
-        args: [
-          payerAddress,
-          merchantAddress as `0x${string}`,
-          BigInt(amount),
-          BigInt(nonce),
-        ],
-      });
-
-      setPaymentStatus("Scanning HaLo tag for payment signature...");
+      // Without RPC access the nonce cannot be checked, a 256-bit random
+      // value (or a terminal-scoped one) will not collide in practice
+      const nonce = generateNonce(NONCE_STRATEGY);
+      const message = { payer, merchant: merchantAddress, amount, nonce };
 
-      // Get signature from HaLo tag
-      const { execHaloCmdWeb } = await import("@arx-research/libhalo/api/web");
-      const result = await execHaloCmdWeb({
+      setPaymentStatus("Tap the HaLo tag again to sign the payment...");
+      const result = await execHaloCmd({
         name: "sign",
-        message: messageHash,
+        message: haloPayment.hashPayment(message),
         format: "hex",
-        keyNo: firstAddress.key,
+        keyNo,
       });
-
       if (!result.signature || !result.signature.ether) {
         throw new Error("No signature received from HaLo tag");
       }
 
-      setPaymentStatus("Executing payment on blockchain...");
-
-      // Create wallet client for transaction
-      const provider = await connectedWallet.getEthereumProvider();
-      const walletClient = createWalletClient({
-        chain: sepolia,
-        transport: custom(provider),
-      });
+      const { valid } = await haloPayment.verifyPaymentSignature(
+        message,
+        result.signature.ether,
+        haloAddress
+      );
+      if (!valid) {
+        throw new Error(
+          "The signature does not match the HaLo key on record. Ask the customer to tap the registered tag again."
+        );
+      }
 
-      // Execute the payment
-      const hash = await walletClient.writeContract({
-        address: HALO_PAYMENT_CONTRACT_ADDRESS,
-        abi: HALO_PAYMENT_ABI,
-        functionName: "executePaymentFromHalo",
-        args: [
-          haloAddress,
-          merchantAddress as `0x${string}`,
-          BigInt(amount),
-          BigInt(nonce),
-          result.signature.ether as `0x${string}`,
-        ],
-        account: merchantAddress as `0x${string}`,
+      await enqueuePayment({
+        chainId,
+        haloAddress,
+        payer,
+        merchant: merchantAddress,
+        amount,
+        nonce,
+        signature: result.signature.ether,
       });
-
-      setPaymentStatus(`Payment successful! Transaction hash: ${hash}`);
-    } catch (err: any) {
-      setError(err.message || "Payment failed");
+      setPaymentStatus(
+        `Payment of ${formatUsdc(amount)} USDC captured offline. It will be settled when the connection returns.`
+      );
+      return true;
+    } catch (err) {
+      setError(describeHaloPaymentError(err, "Offline capture failed"));
       setPaymentStatus("");
+      return false;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const registerHaloAndApproveUSDC = async () => {
-    if (!addresses.length) {
-      setError("No HaLo addresses found. Please scan a tag first.");
-      return;
+  // Resolves to whether the payment went through, errors are shown here
+  const executePayment = async (amount: bigint) => {
+    if (offlineMode) {
+      return capturePaymentOffline(amount);
     }
-
-    const connectedWallet = wallets.find(
-      (wallet) => wallet.walletClientType === "privy"
-    );
     if (!connectedWallet) {
       setError("No wallet connected. Please connect your wallet first.");
-      return;
+      return false;
     }
 
-    const firstAddress = addresses[0];
-    const userAddress = connectedWallet.address;
-    const haloAddress = firstAddress.address as `0x${string}`;
-
     setIsLoading(true);
     setError("");
-    setRegistrationStatus("Starting registration process...");
+    setReceiptPath("");
+    setPaymentStatus("Preparing payment...");
 
     try {
-      // Create wallet client for transactions
-      const provider = await connectedWallet.getEthereumProvider();
-      const walletClient = createWalletClient({
-        chain: sepolia,
-        transport: custom(provider),
-      });
-
-      // Step 1: Register HaLo address in the contract
-      setRegistrationStatus("Registering HaLo address in contract...");
-      const registerHash = await walletClient.writeContract({
-        address: HALO_PAYMENT_CONTRACT_ADDRESS,
-        abi: HALO_PAYMENT_ABI,
-        functionName: "registerHaloAddress",
-        args: [haloAddress],
-        account: userAddress as `0x${string}`,
-      });
-
-      setRegistrationStatus(
-        `HaLo address registered! Waiting for confirmation... (${registerHash})`
-      );
-
-      // Wait for registration transaction to be mined
-      await publicClient.waitForTransactionReceipt({ hash: registerHash });
-
-      // Step 2: Approve USDC spending (approve a large amount, e.g., 1000 USDC)
-      setRegistrationStatus("Approving USDC spending for contract...");
-      const approveAmount = BigInt(1000 * 1000000); // 1000 USDC (6 decimals)
+      // Get merchant address from connected wallet
+      const merchantAddress = connectedWallet.address as Address;
+
+      // Find the key slot the customer registered for payments. The tag is
+      // always read again, a previous scan may belong to another customer.
+      setPaymentStatus("Tap the customer's HaLo tag to identify the payer...");
+      const { etherAddresses } = await execHaloCmd({ name: "get_pkeys" });
+      const slot = await findRegisteredSlot(haloPayment, etherAddresses);
+      if (!slot) {
+        throw new Error(
+          "None of the keys on this HaLo tag is registered for payments."
+        );
+      }
+      const { keyNo, haloAddress, payer: payerAddress } = slot;
+      rememberPayer(chainId, haloAddress, payerAddress);
+
+      const [allowance, payerBalance] = await Promise.all([
+        haloPayment.getAllowance(payerAddress, deployment.usdc),
+        publicClient.readContract({
+          address: deployment.usdc,
+          abi: erc20Abi,
+          functionName: "balanceOf",
+          args: [payerAddress],
+        }),
+      ]);
+      if (allowance < amount) {
+        throw new Error("Insufficient USDC allowance for payment.");
+      }
+      if (payerBalance < amount) {
+        throw new Error("Payer has insufficient USDC balance for payment.");
+      }
 
-      const approveHash = await walletClient.writeContract({
-        address: USDC_CONTRACT_ADDRESS,
-        abi: USDC_ABI,
-        functionName: "approve",
-        args: [HALO_PAYMENT_CONTRACT_ADDRESS, approveAmount],
-        account: userAddress as `0x${string}`,
-      });
+      const isNonceUsed = (nonce: bigint) =>
+        haloPayment.isNonceUsed(payerAddress, nonce);
+
+      // Payment client for the merchant's wallet, not needed when relaying
+      const merchantHaloPayment =
+        submitMode === "self"
+          ? (await getWalletHaloPayment(connectedWallet)).client
+          : null;
+
+      // A nonce taken by another terminal between allocation and submission
+      // invalidates the signature, so collisions need a fresh nonce and tap
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const nonce = await allocateNonce({
+            isNonceUsed,
+            strategy: NONCE_STRATEGY,
+          });
+
+          // Get the message hash that needs to be signed
+          const messageHash = await haloPayment.getPaymentMessageHash({
+            payer: payerAddress,
+            merchant: merchantAddress,
+            amount,
+            nonce,
+          });
+
+          setPaymentStatus(
+            attempt === 1
+              ? "Scanning HaLo tag for payment signature..."
+              : "Nonce was taken by another payment. Please tap the HaLo tag again..."
+          );
+
+          // Get signature from HaLo tag
+          const result = await execHaloCmd({
+            name: "sign",
+            message: messageHash,
+            format: "hex",
+            keyNo,
+          });
+
+          if (!result.signature || !result.signature.ether) {
+            throw new Error("No signature received from HaLo tag");
+          }
 
-      setRegistrationStatus(
-        `USDC approval submitted! Waiting for confirmation... (${approveHash})`
-      );
+          // The tap can take a while, make sure nobody used the nonce since
+          if (await isNonceUsed(nonce)) {
+            throw new NonceCollisionError(nonce);
+          }
 
-      // Wait for approval transaction to be mined
-      await publicClient.waitForTransactionReceipt({ hash: approveHash });
+          // Pre-flight: the signer must be the registered HaLo key, and the
+          // call must succeed, before the merchant pays for gas
+          setPaymentStatus("Verifying signature...");
+          const { valid, recovered } =
+            await haloPayment.verifyPaymentSignature(
+              { payer: payerAddress, merchant: merchantAddress, amount, nonce },
+              result.signature.ether,
+              haloAddress
+            );
+          if (!valid) {
+            throw new Error(
+              `The tag signed with ${recovered}, not with the registered HaLo key ${haloAddress}. Ask the customer to tap the registered tag again.`
+            );
+          }
 
-      setRegistrationStatus(
-        "✅ Registration and approval complete! You can now make payments with your HaLo tag."
-      );
+          const payment = {
+            haloAddress,
+            merchant: merchantAddress,
+            amount,
+            nonce,
+            signature: result.signature.ether,
+          };
+          let hash: Hash;
+          if (merchantHaloPayment) {
+            await merchantHaloPayment.simulateExecutePaymentFromHalo(payment);
+
+            setPaymentStatus("Executing payment on blockchain...");
+
+            // Execute the payment
+            hash = await merchantHaloPayment.executePaymentFromHalo(payment);
+          } else {
+            // The relayer repeats the checks above and simulates on its side
+            setPaymentStatus("Sending payment to the relayer...");
+            hash = await submitRelayedPayment({ chainId, ...payment });
+          }
 
-      // Refresh the addresses to show updated registration status
-      setTimeout(() => {
-        readAddressesAndBalances();
-      }, 2000);
-    } catch (err: any) {
-      setError(err.message || "Registration failed");
-      setRegistrationStatus("");
+          setPaymentStatus(
+            `Payment of ${formatUsdc(amount)} USDC successful! Transaction hash: ${hash}`
+          );
+          setReceiptPath(getReceiptPath(chainId, hash));
+          break;
+        } catch (err) {
+          if (!isNonceCollision(err) || attempt >= MAX_PAYMENT_ATTEMPTS) {
+            throw err;
+          }
+        }
+      }
+      return true;
+    } catch (err) {
+      setError(describeHaloPaymentError(err, "Payment failed"));
+      setPaymentStatus("");
+      return false;
     } finally {
       setIsLoading(false);
     }
@@ -437,13 +492,84 @@ export default function SepoliaPage() {
         <div className="bg-white rounded-xl shadow-xl p-8">
           <div className="text-center mb-8">
             <h1 className="text-4xl font-bold text-gray-800 mb-4">
-              🔗 HaLo → Sepolia
+              🔗 HaLo → {deployment.chain.name}
             </h1>
             <p className="text-lg text-gray-600">
-              Read addresses and show Sepolia balances
+              Read addresses and show {deployment.chain.name} balances
             </p>
+            {getHaloExecutor().kind === "emulator" && (
+              <p className="mt-2 inline-block px-3 py-1 text-sm bg-yellow-100 text-yellow-800 rounded-full">
+                🧪 Using emulated HaLo tag (no NFC hardware)
+              </p>
+            )}
+            <div className="mt-2">
+              <Link
+                href="/merchant"
+                className="text-sm text-indigo-600 hover:underline"
+              >
+                📒 View sales ledger
+              </Link>
+              <span className="mx-2 text-gray-300">·</span>
+              <Link
+                href="/diagnostics"
+                className="text-sm text-indigo-600 hover:underline"
+              >
+                🩺 Tag diagnostics
+              </Link>
+            </div>
+          </div>
+
+          {/* HaLo Session */}
+          {isHaloOnly && haloSession && (
+            <div className="p-4 bg-indigo-50 border border-indigo-200 rounded-lg mb-4">
+              <h3 className="font-semibold text-indigo-800 mb-1">
+                🏷️ Signed in via HaLo
+              </h3>
+              <p className="text-sm text-indigo-700 break-all">
+                Payer {haloSession.payer} until{" "}
+                {new Date(haloSession.expiresAt).toLocaleTimeString()}. Reading
+                and signing with the tag is available; registering tags,
+                changing allowances and collecting payments need a wallet
+                login.
+              </p>
+            </div>
+          )}
+
+          {/* Chain Selector */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Network
+            </label>
+            <select
+              value={chainId}
+              onChange={(e) => selectChain(parseInt(e.target.value))}
+              disabled={isLoading}
+              className="w-full p-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {listDeployments().map((option) => (
+                <option key={option.chain.id} value={option.chain.id}>
+                  {option.chain.name}
+                </option>
+              ))}
+            </select>
           </div>
 
+          {/* Wallet Network Warning */}
+          {walletOnWrongChain && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg mb-4 flex items-center justify-between">
+              <p className="text-yellow-800 text-sm">
+                ⚠️ Your wallet is on another network. It will be switched to{" "}
+                {deployment.chain.name} before any transaction.
+              </p>
+              <button
+                onClick={switchWalletChain}
+                className="ml-4 px-3 py-1 bg-yellow-600 hover:bg-yellow-700 text-white text-sm font-semibold rounded-lg"
+              >
+                Switch
+              </button>
+            </div>
+          )}
+
           {/* Status Display */}
           <div className="p-4 bg-gray-50 rounded-lg mb-4">
             <span className="font-semibold text-lg">Status:</span>
@@ -477,99 +603,153 @@ export default function SepoliaPage() {
             )}
           </button>
 
-          {/* Registration Button */}
-          <button
-            onClick={registerHaloAndApproveUSDC}
-            disabled={
-              isLoading || !addresses.length || addresses[0]?.isRegistered
-            }
-            className="w-full p-4 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2 mb-6"
-          >
-            {isLoading ? (
-              <>
-                <span className="animate-spin">⏳</span>
-                <span>Processing...</span>
-              </>
-            ) : (
-              <>
-                <span>🔐</span>
-                <span>Register First HaLo Address & Approve USDC</span>
-              </>
-            )}
-          </button>
-
-          {/* Payment Button */}
-          <button
-            onClick={executePayment}
-            disabled={
-              isLoading || !addresses.length || !addresses[0]?.isRegistered
-            }
-            className="w-full p-4 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2 mb-6"
-          >
-            {isLoading ? (
-              <>
-                <span className="animate-spin">⏳</span>
-                <span>Processing...</span>
-              </>
-            ) : (
-              <>
-                <span>💳</span>
-                <span>Pay 1 USDC from First HaLo Address</span>
-              </>
-            )}
-          </button>
-
-          {/* Sign Hello World Buttons */}
-          <div className="flex flex-col md:flex-row gap-4 mb-6">
-            <button
-              onClick={() => signHelloWorld("1")}
-              disabled={isLoading}
-              className="w-full p-4 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2"
-            >
-              <span>✍️</span>
-              <span>Sign Hello World with Key 1</span>
-            </button>
-            <button
-              onClick={() => signHelloWorld("0")}
+          {/* Key Slot Selector */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Key slot
+            </label>
+            <select
+              value={selectedKeyNo}
+              onChange={(e) => setSelectedKeyNo(e.target.value)}
               disabled={isLoading}
-              className="w-full p-4 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2"
+              className="w-full p-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
             >
-              <span>✍️</span>
-              <span>Sign Hello World with Key 2</span>
-            </button>
+              {addresses.length
+                ? addresses.map(({ key, address, isRegistered, registeredBy }) => (
+                    <option key={key} value={key}>
+                      Key {key} – {address.slice(0, 6)}...{address.slice(-4)}
+                      {isRegistered
+                        ? isOwnRegistration(registeredBy)
+                          ? " (registered to you)"
+                          : " (registered)"
+                        : ""}
+                    </option>
+                  ))
+                : DEFAULT_KEY_SLOTS.map((key) => (
+                    <option key={key} value={key}>
+                      Key {key}
+                    </option>
+                  ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Used for signing. Payments find the registered slot
+              automatically.
+            </p>
           </div>
 
-          {/* Registration Status Display */}
-          {registrationStatus && (
-            <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg mb-4">
-              <h3 className="font-semibold text-orange-800 mb-2">
-                🔐 Registration Status
-              </h3>
-              <p className="text-orange-700">{registrationStatus}</p>
-            </div>
+          {/* Onboarding */}
+          {can("register") && (
+            <OnboardingWizard
+              chainId={chainId}
+              disabled={isLoading}
+              onChange={() => {
+                setAddresses([]);
+                setStatus("Tag registration changed. Scan again to refresh.");
+              }}
+            />
+          )}
+
+          {/* Tag Management */}
+          {can("manageTag") && (
+            <>
+              <MyHaloTag
+                chainId={chainId}
+                disabled={isLoading}
+                onChange={() => {
+                  setAddresses([]);
+                  setStatus("Tag registration changed. Scan again to refresh.");
+                }}
+              />
+              <AllowanceManager chainId={chainId} disabled={isLoading} />
+            </>
           )}
 
+          {can("collectPayment") && (
+            <>
+              {/* Payment Submission Mode */}
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Payment submission
+                </label>
+                <div className="flex gap-2">
+                  {(["relay", "self"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setSubmitMode(mode)}
+                      disabled={
+                        isLoading || (mode === "relay" && !relayerStatus.enabled)
+                      }
+                      className={`flex-1 p-2 text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 ${
+                        submitMode === mode
+                          ? "bg-indigo-600 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                      }`}
+                    >
+                      {mode === "relay" ? "⚡ Relay (gasless)" : "👛 Self-submit"}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {!relayerStatus.enabled
+                    ? `No relayer is available on ${deployment.chain.name}. Your wallet pays the gas.`
+                    : submitMode === "relay"
+                    ? `Gas is paid by the relayer ${relayerStatus.relayer}.`
+                    : "Your wallet sends the transaction and pays the gas."}
+                </p>
+              </div>
+
+              {/* Offline Mode */}
+              <label className="flex items-center space-x-2 text-sm text-gray-700 mb-4">
+                <input
+                  type="checkbox"
+                  checked={offlineMode}
+                  onChange={(e) => setOfflineMode(e.target.checked)}
+                  disabled={isLoading}
+                />
+                <span>
+                  📴 Offline mode: capture signed payments now, settle them later
+                </span>
+              </label>
+
+              {/* Point of Sale */}
+              <PointOfSale
+                disabled={!connectedWallet}
+                isProcessing={isLoading}
+                onCharge={executePayment}
+              />
+            </>
+          )}
+
+          {/* Offline Payments */}
+          {can("settle") && (
+            <SettlementQueue submitMode={submitMode} disabled={isLoading} />
+          )}
+
+          {/* Signing Console */}
+          <SigningConsole
+            keySlots={
+              addresses.length
+                ? addresses
+                : DEFAULT_KEY_SLOTS.map((key) => ({ key }))
+            }
+            defaultKeyNo={selectedKeyNo}
+            disabled={isLoading}
+          />
+
           {/* Payment Status Display */}
           {paymentStatus && (
             <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg mb-4">
               <h3 className="font-semibold text-purple-800 mb-2">
                 💳 Payment Status
               </h3>
-              <p className="text-purple-700">{paymentStatus}</p>
-            </div>
-          )}
-
-          {/* Signature Display */}
-          {signature && (
-            <div className="p-4 bg-green-50 border border-green-200 rounded-lg mb-4">
-              <h3 className="font-semibold text-green-800 mb-2">Signature</h3>
-              <pre className="text-xs text-green-700 mt-2 p-2 bg-green-100 rounded overflow-auto">
-                {signature}
-              </pre>
-              {recoveredAddress && (
-                <div className="mt-2 text-green-900 text-sm">
-                  <strong>Recovered Address:</strong> {recoveredAddress}
-                </div>
+              <p className="text-purple-700 break-all">{paymentStatus}</p>
+              {receiptPath && (
+                <Link
+                  href={receiptPath}
+                  className="inline-block mt-3 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold rounded-lg"
+                >
+                  🧾 Show receipt
+                </Link>
               )}
             </div>
           )}
@@ -591,12 +771,29 @@ export default function SepoliaPage() {
                     usdcAllowance,
                     payerUsdcBalance,
                   }) => (
-                    <li key={key} className="p-3 bg-blue-100 rounded-lg">
-                      <div className="font-mono text-sm text-blue-900 mb-1">
-                        <strong>Key {key}:</strong> {address}
+                    <li
+                      key={key}
+                      className={`p-3 bg-blue-100 rounded-lg ${
+                        key === selectedKeyNo ? "ring-2 ring-indigo-500" : ""
+                      }`}
+                    >
+                      <div className="flex justify-between items-center mb-1">
+                        <div className="font-mono text-sm text-blue-900">
+                          <strong>Key {key}:</strong> {address}
+                        </div>
+                        {key !== selectedKeyNo && (
+                          <button
+                            onClick={() => setSelectedKeyNo(key)}
+                            disabled={isLoading}
+                            className="ml-2 text-xs text-indigo-700 hover:text-indigo-900 underline"
+                          >
+                            Select
+                          </button>
+                        )}
                       </div>
                       <div className="text-blue-700 text-sm mb-2">
-                        ETH Balance: {balance} ETH
+                        {deployment.chain.nativeCurrency.symbol} Balance: {balance}{" "}
+                        {deployment.chain.nativeCurrency.symbol}
                       </div>
 
                       {/* HaLo Registration Status */}
@@ -613,18 +810,21 @@ export default function SepoliaPage() {
                             </div>
                             <div className="text-xs text-gray-700">
                               <strong>Registered by:</strong> {registeredBy}
+                              {isOwnRegistration(registeredBy) && (
+                                <span className="ml-1 text-indigo-700 font-semibold">
+                                  (your wallet)
+                                </span>
+                              )}
                             </div>
                             <div className="text-xs text-gray-700">
-                              <strong>USDC Allowance:</strong> {usdcAllowance}{" "}
+                              <strong>USDC Allowance:</strong>{" "}
+                              {formatUsdc(usdcAllowance ?? BigInt(0))}{" "}
                               USDC
                             </div>
                             <div className="text-xs text-gray-700">
                               <strong>Payer USDC Balance:</strong>{" "}
-                              {payerUsdcBalance} USDC
-                              {usdcAllowance &&
-                                parseFloat(usdcAllowance) > 0 &&
-                                payerUsdcBalance &&
-                                parseFloat(payerUsdcBalance) > 0 && (
+                              {formatUsdc(payerUsdcBalance ?? BigInt(0))} USDC
+                              {!!usdcAllowance && !!payerUsdcBalance && (
                                   <span className="ml-2 text-green-600 font-semibold">
                                     💰 Ready for payments
                                   </span>
@@ -2,8 +2,11 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import PrivyProviderWrapper from "./components/PrivyProvider";
-import NexusProviderWrapper from "./components/NexusProvider";
+import NetworkProvider from "./components/NetworkProvider";
+import NexusProvider from "./components/NexusProvider";
+import NexusSessionProvider from "./components/NexusSessionProvider";
 import WalletBridge from "./components/WalletBridge";
+import HaloSessionProvider from "./components/HaloSessionProvider";
 import Header from "./components/Header";
 
 const geistSans = Geist({
@@ -33,11 +36,17 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <PrivyProviderWrapper>
-          <NexusProviderWrapper>
-            <WalletBridge />
-            <Header />
-            <main className="min-h-screen">{children}</main>
-          </NexusProviderWrapper>
+          <NetworkProvider>
+            <NexusProvider>
+              <NexusSessionProvider>
+                <HaloSessionProvider>
+                  <WalletBridge />
+                  <Header />
+                  <main className="min-h-screen">{children}</main>
+                </HaloSessionProvider>
+              </NexusSessionProvider>
+            </NexusProvider>
+          </NetworkProvider>
         </PrivyProviderWrapper>
       </body>
     </html>
@@ -0,0 +1,216 @@
+import type { Address, Chain, Hash } from "viem";
+import {
+  anvil,
+  arbitrum,
+  arbitrumSepolia,
+  avalanche,
+  base,
+  baseSepolia,
+  mainnet,
+  optimism,
+  optimismSepolia,
+  polygon,
+  polygonAmoy,
+  scroll,
+  sepolia,
+} from "viem/chains";
+import type { NexusNetwork } from "../nexus/network";
+
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface BlockExplorer {
+  name: string;
+  url: string;
+}
+
+export interface HaloPaymentContracts {
+  address: Address;
+  usdc: Address;
+  // Block the contract was deployed in, where event scans start when known
+  deployBlock?: bigint;
+  // Whether the contract has registerHaloAddressWithPermit
+  supportsPermit: boolean;
+}
+
+export interface ChainInfo {
+  id: number;
+  name: string;
+  testnet: boolean;
+  nativeCurrency: NativeCurrency;
+  logoUrl: string;
+  // Tried in order, the first one is the preferred endpoint
+  rpcUrls: string[];
+  explorer?: BlockExplorer;
+  // Whether Nexus bridges and transfers to this chain
+  nexus: boolean;
+  haloPayment?: HaloPaymentContracts;
+  // viem definition carrying the name and RPCs above
+  viem: Chain;
+}
+
+// Next.js only inlines NEXT_PUBLIC_* variables that are accessed statically,
+// so every configurable deployment reads its own named variables. They are
+// expected to point at deployments of the current contract.
+const env = {
+  baseSepoliaHaloPayment: process.env.NEXT_PUBLIC_HALO_PAYMENT_BASE_SEPOLIA,
+  arbitrumSepoliaHaloPayment:
+    process.env.NEXT_PUBLIC_HALO_PAYMENT_ARBITRUM_SEPOLIA,
+  anvilHaloPayment: process.env.NEXT_PUBLIC_HALO_PAYMENT_ANVIL,
+  anvilUsdc: process.env.NEXT_PUBLIC_USDC_ANVIL,
+  anvilRpcUrl: process.env.NEXT_PUBLIC_ANVIL_RPC_URL,
+};
+
+const llamaoLogo = (slug: string) =>
+  `https://icons.llamao.fi/icons/chains/rsz_${slug}.jpg`;
+
+interface ChainEntry {
+  name?: string;
+  logoUrl: string;
+  // Preferred endpoints, tried before the viem defaults
+  rpcUrls?: string[];
+  nexus?: boolean;
+  haloPayment?: HaloPaymentContracts | null;
+}
+
+function defineChainInfo(chain: Chain, entry: ChainEntry): ChainInfo {
+  const name = entry.name ?? chain.name;
+  const rpcUrls = Array.from(
+    new Set([...(entry.rpcUrls ?? []), ...chain.rpcUrls.default.http])
+  );
+  return {
+    id: chain.id,
+    name,
+    testnet: !!chain.testnet,
+    nativeCurrency: chain.nativeCurrency,
+    logoUrl: entry.logoUrl,
+    rpcUrls,
+    explorer: chain.blockExplorers?.default,
+    nexus: !!entry.nexus,
+    haloPayment: entry.haloPayment ?? undefined,
+    viem: {
+      ...chain,
+      name,
+      rpcUrls: { ...chain.rpcUrls, default: { http: rpcUrls } },
+    },
+  };
+}
+
+/** Every chain the app knows, mainnets first, in picker order. */
+export const CHAINS: ChainInfo[] = [
+  defineChainInfo(mainnet, {
+    name: "Ethereum",
+    logoUrl: llamaoLogo("ethereum"),
+    nexus: true,
+  }),
+  defineChainInfo(optimism, {
+    name: "Optimism",
+    logoUrl: llamaoLogo("optimism"),
+    nexus: true,
+  }),
+  defineChainInfo(polygon, {
+    logoUrl: llamaoLogo("polygon"),
+    nexus: true,
+  }),
+  defineChainInfo(arbitrum, {
+    name: "Arbitrum",
+    logoUrl: llamaoLogo("arbitrum"),
+    nexus: true,
+  }),
+  defineChainInfo(avalanche, {
+    logoUrl: llamaoLogo("avalanche"),
+    nexus: true,
+  }),
+  defineChainInfo(base, { logoUrl: llamaoLogo("base"), nexus: true }),
+  defineChainInfo(scroll, { logoUrl: llamaoLogo("scroll"), nexus: true }),
+  defineChainInfo(sepolia, {
+    logoUrl: llamaoLogo("ethereum"),
+    rpcUrls: ["https://sepolia.drpc.org"],
+    haloPayment: {
+      address: "0xEC0250Af17481f9cB405081D49Fb9228769B3092",
+      usdc: "0x1c7d4b196cb0c7b01d743fbc6116a902379c7238",
+      // Deployed before permit registration was added
+      supportsPermit: false,
+    },
+  }),
+  defineChainInfo(optimismSepolia, {
+    name: "Optimism Sepolia",
+    logoUrl: llamaoLogo("optimism"),
+    nexus: true,
+  }),
+  defineChainInfo(polygonAmoy, {
+    logoUrl: llamaoLogo("polygon"),
+    nexus: true,
+  }),
+  defineChainInfo(arbitrumSepolia, {
+    logoUrl: llamaoLogo("arbitrum"),
+    rpcUrls: ["https://arbitrum-sepolia.drpc.org"],
+    nexus: true,
+    haloPayment: env.arbitrumSepoliaHaloPayment
+      ? {
+          address: env.arbitrumSepoliaHaloPayment as Address,
+          usdc: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+          supportsPermit: true,
+        }
+      : null,
+  }),
+  defineChainInfo(baseSepolia, {
+    logoUrl: llamaoLogo("base"),
+    rpcUrls: ["https://base-sepolia.drpc.org"],
+    nexus: true,
+    haloPayment: env.baseSepoliaHaloPayment
+      ? {
+          address: env.baseSepoliaHaloPayment as Address,
+          usdc: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+          supportsPermit: true,
+        }
+      : null,
+  }),
+  // Local development chain, e.g. `anvil` plus `forge script Deploy.s.sol`
+  defineChainInfo(
+    // The configured RPC replaces anvil's default instead of preceding it
+    env.anvilRpcUrl
+      ? { ...anvil, rpcUrls: { default: { http: [env.anvilRpcUrl] } } }
+      : anvil,
+    {
+      logoUrl: "/globe.svg",
+      haloPayment:
+        env.anvilHaloPayment && env.anvilUsdc
+          ? {
+              address: env.anvilHaloPayment as Address,
+              usdc: env.anvilUsdc as Address,
+              deployBlock: BigInt(0),
+              supportsPermit: true,
+            }
+          : null,
+    }
+  ),
+];
+
+const CHAINS_BY_ID: Record<number, ChainInfo> = Object.fromEntries(
+  CHAINS.map((chain) => [chain.id, chain])
+);
+
+export const getChainInfo = (chainId: number): ChainInfo | undefined =>
+  CHAINS_BY_ID[chainId];
+
+const NEXUS_CHAINS: Record<NexusNetwork, ChainInfo[]> = {
+  mainnet: CHAINS.filter((chain) => chain.nexus && !chain.testnet),
+  testnet: CHAINS.filter((chain) => chain.nexus && chain.testnet),
+};
+
+/** Chains Nexus bridges and transfers to on `network`. */
+export const getNexusChains = (network: NexusNetwork) => NEXUS_CHAINS[network];
+
+export const getExplorerTxUrl = (chainId: number, hash: Hash) => {
+  const explorer = getChainInfo(chainId)?.explorer;
+  return explorer ? `${explorer.url}/tx/${hash}` : null;
+};
+
+export const getExplorerAddressUrl = (chainId: number, address: Address) => {
+  const explorer = getChainInfo(chainId)?.explorer;
+  return explorer ? `${explorer.url}/address/${address}` : null;
+};
@@ -0,0 +1,108 @@
+import type { Hex } from "viem";
+import { execHaloCmd } from "../halo";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  findRegisteredSlot,
+  getDeployment,
+} from "../halo-payment";
+import { formatHaloLoginMessage } from "./message";
+import type {
+  HaloLoginMessage,
+  HaloNonceResponse,
+  HaloSession,
+  HaloSessionResponse,
+  HaloVerifyRequest,
+} from "./types";
+
+const AUTH_ENDPOINT = "/api/auth/halo";
+
+const readSession = async (response: Response) => {
+  const result: HaloSessionResponse = await response.json();
+  if ("error" in result) {
+    throw new Error(result.error);
+  }
+  return result.session;
+};
+
+export async function fetchHaloSession(): Promise<HaloSession | null> {
+  try {
+    return await readSession(await fetch(`${AUTH_ENDPOINT}/session`));
+  } catch {
+    return null;
+  }
+}
+
+export async function signOutHalo() {
+  await fetch(`${AUTH_ENDPOINT}/session`, { method: "DELETE" });
+}
+
+/**
+ * Challenge/response login: fetches a nonce, finds the tag's slot registered
+ * on `chainId` (first tap) and has it sign the login message (second tap).
+ * The server answers with the session and sets its cookie.
+ */
+export async function signInWithHalo(
+  chainId: number,
+  onStatus?: (status: string) => void
+): Promise<HaloSession> {
+  const nonceResponse = await fetch(`${AUTH_ENDPOINT}/nonce`);
+  const challenge: HaloNonceResponse | { error: string } =
+    await nonceResponse.json();
+  if ("error" in challenge) {
+    throw new Error(challenge.error);
+  }
+
+  onStatus?.("Tap your HaLo tag to identify it...");
+  const { etherAddresses } = await execHaloCmd({ name: "get_pkeys" });
+  const deployment = getDeployment(chainId);
+  const slot = await findRegisteredSlot(
+    createHaloPaymentClient({
+      address: deployment.haloPayment,
+      publicClient: createDeploymentPublicClient(deployment),
+    }),
+    etherAddresses
+  );
+  if (!slot) {
+    throw new Error(
+      `This HaLo tag is not registered on ${deployment.chain.name}`
+    );
+  }
+
+  const message: HaloLoginMessage = {
+    domain: window.location.host,
+    uri: window.location.origin,
+    haloAddress: slot.haloAddress,
+    chainId,
+    nonce: challenge.nonce,
+    issuedAt: new Date().toISOString(),
+    expirationTime: new Date(challenge.expiresAt).toISOString(),
+  };
+  onStatus?.("Tap your HaLo tag again to sign in...");
+  const result = await execHaloCmd({
+    name: "sign",
+    keyNo: slot.keyNo,
+    message: formatHaloLoginMessage(message),
+    format: "text",
+  });
+  if (!result.signature?.ether) {
+    throw new Error("No signature received from HaLo tag");
+  }
+
+  onStatus?.("Verifying...");
+  const body: HaloVerifyRequest = {
+    message,
+    signature: result.signature.ether as Hex,
+  };
+  const session = await readSession(
+    await fetch(`${AUTH_ENDPOINT}/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+  if (!session) {
+    throw new Error("Sign-in with HaLo failed");
+  }
+  return session;
+}
@@ -0,0 +1,26 @@
+import type { HaloLoginMessage } from "./types";
+
+// How long a nonce, and the message built on it, can be signed for
+export const HALO_LOGIN_TTL_SECONDS = 5 * 60;
+
+const STATEMENT =
+  "Sign in with your HaLo tag. This session cannot move funds or change your tag registration.";
+
+/**
+ * Text signed by the tag with the EIP-191 prefix. Follows the EIP-4361 layout
+ * so the prompt reads like any other Ethereum sign-in.
+ */
+export const formatHaloLoginMessage = (message: HaloLoginMessage) =>
+  [
+    `${message.domain} wants you to sign in with your HaLo tag:`,
+    message.haloAddress,
+    "",
+    STATEMENT,
+    "",
+    `URI: ${message.uri}`,
+    "Version: 1",
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+    `Expiration Time: ${message.expirationTime}`,
+  ].join("\n");
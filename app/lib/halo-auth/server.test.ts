@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { privateKeyToAccount } from "viem/accounts";
+import { formatHaloLoginMessage } from "./message";
+import type { HaloLoginMessage } from "./types";
+
+// The secret is read on import
+process.env.HALO_AUTH_SECRET = "test-secret";
+const { issueLoginNonce, verifyHaloLogin } = await import("./server");
+
+// anvil's first development key, standing in for a tag
+const tag = privateKeyToAccount(
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80"
+);
+
+const signLogin = async (chainId: number) => {
+  const { nonce, expiresAt, cookie } = issueLoginNonce();
+  const message: HaloLoginMessage = {
+    domain: "pos.example",
+    uri: "https://pos.example",
+    haloAddress: tag.address,
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+    expirationTime: new Date(expiresAt).toISOString(),
+  };
+  const signature = await tag.signMessage({
+    message: formatHaloLoginMessage(message),
+  });
+  return { request: { message, signature }, cookie };
+};
+
+describe("verifyHaloLogin", () => {
+  test("rejects messages for another host", async () => {
+    const { request, cookie } = await signLogin(11155111);
+    await expect(
+      verifyHaloLogin(request, cookie, "evil.example")
+    ).rejects.toThrow("The login message is for another site");
+  });
+
+  test("keeps the nonce when the chain has no deployment", async () => {
+    const { request, cookie } = await signLogin(1);
+    for (let i = 0; i < 2; i++) {
+      await expect(
+        verifyHaloLogin(request, cookie, "pos.example")
+      ).rejects.toThrow("HaloPayment is not deployed on chain 1");
+    }
+  });
+});
@@ -0,0 +1,227 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { isAddress, isAddressEqual, isHex, recoverMessageAddress } from "viem";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  HALO_PAYMENT_DEPLOYMENTS,
+} from "../halo-payment";
+import { formatHaloLoginMessage, HALO_LOGIN_TTL_SECONDS } from "./message";
+import type { HaloLoginMessage, HaloSession, HaloVerifyRequest } from "./types";
+
+// Server-only settings, never exposed to the browser
+const env = {
+  secret: process.env.HALO_AUTH_SECRET,
+  sessionTtlSeconds: process.env.HALO_SESSION_TTL_SECONDS,
+};
+
+export const HALO_NONCE_COOKIE = "halo_login_nonce";
+export const HALO_SESSION_COOKIE = "halo_session";
+
+// Sessions are short-lived, the tablet is shared
+export const HALO_SESSION_TTL_SECONDS =
+  Number(env.sessionTtlSeconds) || 15 * 60;
+
+export const sessionCookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge,
+});
+
+export class HaloAuthError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "HaloAuthError";
+  }
+}
+
+const getSecret = () => {
+  if (!env.secret) {
+    throw new HaloAuthError("Sign-in with HaLo is not configured", 503);
+  }
+  return env.secret;
+};
+
+// What a sealed value is for. It is part of the MAC, so a value sealed for
+// one cookie never unseals as another.
+type SealPurpose = "login-nonce" | "session";
+
+const mac = (purpose: SealPurpose, payload: string) =>
+  createHmac("sha256", getSecret())
+    .update(`${purpose}.${payload}`)
+    .digest("base64url");
+
+// `<base64url JSON>.<HMAC>`, readable by the server only through `unseal`
+const seal = (purpose: SealPurpose, value: object) => {
+  const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${payload}.${mac(purpose, payload)}`;
+};
+
+function unseal(purpose: SealPurpose, token: string | undefined): unknown {
+  const [payload, signature] = (token ?? "").split(".");
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(mac(purpose, payload));
+  const received = Buffer.from(signature);
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return null;
+  }
+}
+
+interface LoginNonce {
+  nonce: string;
+  expiresAt: number;
+}
+
+const isLoginNonce = (value: unknown): value is LoginNonce => {
+  const { nonce, expiresAt } = (value ?? {}) as Partial<LoginNonce>;
+  return typeof nonce === "string" && typeof expiresAt === "number";
+};
+
+const isHaloSession = (value: unknown): value is HaloSession => {
+  const session = (value ?? {}) as Partial<HaloSession>;
+  return (
+    typeof session.payer === "string" &&
+    isAddress(session.payer) &&
+    typeof session.haloAddress === "string" &&
+    isAddress(session.haloAddress) &&
+    Number.isInteger(session.chainId) &&
+    typeof session.issuedAt === "number" &&
+    typeof session.expiresAt === "number"
+  );
+};
+
+// Nonces already used to sign in, until they expire. Kept in memory like the
+// relayer's rate limits, so a replay is only caught by the same instance.
+const usedNonces = new Map<string, number>();
+
+// Marks `challenge` used, false when it already was
+function consumeLoginNonce(challenge: LoginNonce, now: number) {
+  usedNonces.forEach((expiresAt, nonce) => {
+    if (expiresAt < now) usedNonces.delete(nonce);
+  });
+  if (usedNonces.has(challenge.nonce)) return false;
+  usedNonces.set(challenge.nonce, challenge.expiresAt);
+  return true;
+}
+
+/**
+ * Fresh login challenge. The sealed copy goes into an HttpOnly cookie, so
+ * verification only works in this browser, and each nonce signs in once.
+ */
+export function issueLoginNonce() {
+  const challenge: LoginNonce = {
+    nonce: randomBytes(16).toString("hex"),
+    expiresAt: Date.now() + HALO_LOGIN_TTL_SECONDS * 1000,
+  };
+  return { ...challenge, cookie: seal("login-nonce", challenge) };
+}
+
+/** Checks the shape of an untrusted request body. */
+export function parseHaloVerifyRequest(body: unknown): HaloVerifyRequest {
+  const { message, signature } = (body ?? {}) as Partial<HaloVerifyRequest>;
+  const fields = (message ?? {}) as Partial<HaloLoginMessage>;
+  if (!signature || !isHex(signature)) {
+    throw new HaloAuthError("signature must be hex encoded", 400);
+  }
+  if (!fields.haloAddress || !isAddress(fields.haloAddress)) {
+    throw new HaloAuthError("haloAddress must be an address", 400);
+  }
+  if (!Number.isInteger(fields.chainId)) {
+    throw new HaloAuthError("chainId must be a number", 400);
+  }
+  for (const field of [
+    "domain",
+    "uri",
+    "nonce",
+    "issuedAt",
+    "expirationTime",
+  ] as const) {
+    if (typeof fields[field] !== "string") {
+      throw new HaloAuthError(`${field} must be a string`, 400);
+    }
+  }
+  return { message: fields as HaloLoginMessage, signature };
+}
+
+/**
+ * Verifies a signed login message against the nonce cookie and the request
+ * host, then resolves the payer the tag is registered to on `chainId`.
+ */
+export async function verifyHaloLogin(
+  { message, signature }: HaloVerifyRequest,
+  nonceCookie: string | undefined,
+  host: string | null
+): Promise<HaloSession> {
+  const challenge = unseal("login-nonce", nonceCookie);
+  const now = Date.now();
+  if (!isLoginNonce(challenge) || challenge.nonce !== message.nonce) {
+    throw new HaloAuthError("Unknown login nonce, please try again", 401);
+  }
+  if (challenge.expiresAt < now || Date.parse(message.expirationTime) < now) {
+    throw new HaloAuthError("The login request expired, please try again", 401);
+  }
+  if (!host || message.domain !== host) {
+    throw new HaloAuthError("The login message is for another site", 401);
+  }
+
+  const signer = await recoverMessageAddress({
+    message: formatHaloLoginMessage(message),
+    signature,
+  }).catch(() => null);
+  if (!signer || !isAddressEqual(signer, message.haloAddress)) {
+    throw new HaloAuthError("The signature was not made by this HaLo tag", 401);
+  }
+  const deployment = HALO_PAYMENT_DEPLOYMENTS[message.chainId];
+  if (!deployment) {
+    throw new HaloAuthError(
+      `HaloPayment is not deployed on chain ${message.chainId}`,
+      400
+    );
+  }
+  const payer = await createHaloPaymentClient({
+    address: deployment.haloPayment,
+    publicClient: createDeploymentPublicClient(deployment),
+  }).getPayerFromHaloAddress(message.haloAddress);
+  if (!payer) {
+    throw new HaloAuthError(
+      `This HaLo tag is not registered on ${deployment.chain.name}`,
+      403
+    );
+  }
+  // Spent only once the login can succeed, so a wrong chain or an
+  // unregistered tag can be retried. Checked and set without awaiting, so
+  // concurrent replays cannot both pass.
+  if (!consumeLoginNonce(challenge, now)) {
+    throw new HaloAuthError("This login request was already used", 401);
+  }
+
+  return {
+    payer,
+    haloAddress: message.haloAddress,
+    chainId: message.chainId,
+    issuedAt: now,
+    expiresAt: now + HALO_SESSION_TTL_SECONDS * 1000,
+  };
+}
+
+export const sealHaloSession = (session: HaloSession) =>
+  seal("session", session);
+
+// The session in a cookie, or null when missing, tampered with, malformed or
+// expired
+export function readHaloSession(cookie: string | undefined) {
+  if (!cookie || !env.secret) return null;
+  const session = unseal("session", cookie);
+  return isHaloSession(session) && session.expiresAt > Date.now()
+    ? session
+    : null;
+}
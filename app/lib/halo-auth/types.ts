@@ -0,0 +1,53 @@
+import type { Address, Hex } from "viem";
+
+// Fields of the login message a tag signs, modelled on EIP-4361 (SIWE)
+export interface HaloLoginMessage {
+  // Host the session is issued for, checked against the request
+  domain: string;
+  uri: string;
+  haloAddress: Address;
+  // Chain whose HaloPayment registration resolves the payer
+  chainId: number;
+  nonce: string;
+  // ISO 8601 timestamps
+  issuedAt: string;
+  expirationTime: string;
+}
+
+// Response of GET /api/auth/halo/nonce
+export interface HaloNonceResponse {
+  nonce: string;
+  expiresAt: number;
+}
+
+// Body of POST /api/auth/halo/verify
+export interface HaloVerifyRequest {
+  message: HaloLoginMessage;
+  signature: Hex;
+}
+
+export interface HaloSession {
+  payer: Address;
+  haloAddress: Address;
+  chainId: number;
+  // Unix milliseconds
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Response of the verify and session routes
+export type HaloSessionResponse =
+  | { session: HaloSession | null }
+  | { error: string };
+
+// Scanner features a tablet signed in by tap may use. Registering tags,
+// moving allowances and collecting payments need the owner's wallet login.
+export type ScannerFeature =
+  | "readTag"
+  | "sign"
+  | "register"
+  | "manageTag"
+  | "collectPayment"
+  | "settle";
+
+export const HALO_SESSION_FEATURES: ScannerFeature[] = ["readTag", "sign"];
@@ -0,0 +1,174 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeFunctionResult,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+} from "viem";
+import { sepolia } from "viem/chains";
+import { haloPaymentAbi } from "./abi";
+import { createHaloPaymentClient } from "./client";
+import { getEthSignedPaymentHash, getPaymentMessageHash } from "./hash";
+
+// Recorded by deploying HaloPayment.sol on a local EVM with Sepolia's chain
+// id and calling the two hash views with `MESSAGE`
+const CONTRACT = "0x45eb6484d76cfe3f45708b91f5af8ce495134fac";
+const CONTRACT_MESSAGE_HASH =
+  "0x7c8267cb1976a87385e38e0d91d0e12696c6b26f7b317eb52bf7ea891e2728ec";
+const CONTRACT_ETH_SIGNED_HASH =
+  "0x735d6aac5ba9392dc7336fcb53d7736d086ab9cac7c969c86213f725e878acdf";
+
+const MESSAGE = {
+  payer: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+  merchant: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+  amount: BigInt(12_500_000),
+  nonce: BigInt(`0x${"ab".repeat(32)}`),
+} as const;
+
+const DOMAIN = { chainId: sepolia.id, contract: CONTRACT } as const;
+
+// Answers the hash views like the deployed contract, recording each call
+function createFakeNode() {
+  const calls: { functionName: string; args: readonly unknown[] }[] = [];
+  const publicClient = createPublicClient({
+    chain: sepolia,
+    transport: custom({
+      request: async ({ method, params }) => {
+        if (method !== "eth_call") throw new Error(`Unexpected ${method}`);
+        const { data } = (params as [{ data: Hex }])[0];
+        const { functionName, args = [] } = decodeFunctionData({
+          abi: haloPaymentAbi,
+          data,
+        });
+        calls.push({ functionName, args });
+        if (functionName === "getPaymentMessageHash") {
+          return encodeFunctionResult({
+            abi: haloPaymentAbi,
+            functionName,
+            result: CONTRACT_MESSAGE_HASH,
+          });
+        }
+        if (functionName === "getEthSignedMessageHash") {
+          return encodeFunctionResult({
+            abi: haloPaymentAbi,
+            functionName,
+            result: CONTRACT_ETH_SIGNED_HASH,
+          });
+        }
+        throw new Error(`Unexpected call to ${functionName}`);
+      },
+    }),
+  });
+  return { publicClient, calls };
+}
+
+describe("payment hashes", () => {
+  test("match the contract's getPaymentMessageHash", () => {
+    expect(getPaymentMessageHash(MESSAGE, DOMAIN)).toBe(CONTRACT_MESSAGE_HASH);
+  });
+
+  test("match the contract's getEthSignedMessageHash", () => {
+    expect(getEthSignedPaymentHash(MESSAGE, DOMAIN)).toBe(
+      CONTRACT_ETH_SIGNED_HASH
+    );
+  });
+
+  test("are bound to the chain and the contract", () => {
+    expect(
+      getPaymentMessageHash(MESSAGE, { ...DOMAIN, chainId: 84532 })
+    ).not.toBe(CONTRACT_MESSAGE_HASH);
+    expect(
+      getPaymentMessageHash(MESSAGE, {
+        ...DOMAIN,
+        contract: "0xEC0250Af17481f9cB405081D49Fb9228769B3092",
+      })
+    ).not.toBe(CONTRACT_MESSAGE_HASH);
+  });
+});
+
+describe("createHaloPaymentClient", () => {
+  test("hashes locally what the contract returns", async () => {
+    const { publicClient, calls } = createFakeNode();
+    const client = createHaloPaymentClient({ address: CONTRACT, publicClient });
+
+    expect(client.chainId).toBe(sepolia.id);
+    expect(client.hashPayment(MESSAGE)).toBe(
+      await client.getPaymentMessageHash(MESSAGE)
+    );
+    expect(client.hashPaymentForRecovery(MESSAGE)).toBe(
+      await client.getEthSignedMessageHash(MESSAGE)
+    );
+    expect(calls).toEqual([
+      {
+        functionName: "getPaymentMessageHash",
+        args: [MESSAGE.payer, MESSAGE.merchant, MESSAGE.amount, MESSAGE.nonce],
+      },
+      {
+        functionName: "getEthSignedMessageHash",
+        args: [MESSAGE.payer, MESSAGE.merchant, MESSAGE.amount, MESSAGE.nonce],
+      },
+    ]);
+  });
+});
+
+describe("findPaymentByNonce", () => {
+  // Chain of 5,000 blocks, one every 12 seconds, with payments at `blocks`
+  const createChain = (blocks: number[]) => {
+    const queries: [bigint, bigint][] = [];
+    const publicClient = {
+      chain: sepolia,
+      getBlockNumber: async () => BigInt(5_000),
+      getContractEvents: async ({
+        fromBlock,
+        toBlock,
+      }: {
+        fromBlock: bigint;
+        toBlock: bigint;
+      }) => {
+        queries.push([fromBlock, toBlock]);
+        return blocks
+          .filter((block) => block >= fromBlock && block <= toBlock)
+          .map((block) => ({
+            transactionHash: `0x${block.toString(16).padStart(64, "0")}`,
+            args: { ...MESSAGE, nonce: BigInt(block) },
+          }));
+      },
+      getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+        timestamp: blockNumber * BigInt(12),
+      }),
+    } as unknown as PublicClient<Transport, Chain>;
+    return {
+      client: createHaloPaymentClient({ address: CONTRACT, publicClient }),
+      queries,
+    };
+  };
+
+  test("finds the payment that used the nonce", async () => {
+    const { client, queries } = createChain([1_500, 4_000]);
+    const payment = await client.findPaymentByNonce(
+      MESSAGE.payer,
+      BigInt(1_500),
+      { since: 0 }
+    );
+    expect(payment?.args.nonce).toBe(BigInt(1_500));
+    expect(queries).toEqual([
+      [BigInt(3_001), BigInt(5_000)],
+      [BigInt(1_001), BigInt(3_000)],
+    ]);
+  });
+
+  test("stops at blocks older than `since`", async () => {
+    const { client, queries } = createChain([1_500]);
+    expect(
+      await client.findPaymentByNonce(MESSAGE.payer, BigInt(1_500), {
+        // Block 3,500's timestamp
+        since: 42_000,
+      })
+    ).toBeNull();
+    expect(queries).toEqual([[BigInt(3_001), BigInt(5_000)]]);
+  });
+});
@@ -0,0 +1,394 @@
+import {
+  isAddressEqual,
+  recoverAddress,
+  zeroAddress,
+  type Account,
+  type Address,
+  type Chain,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { haloPaymentAbi } from "./abi";
+import { erc20Abi, erc20PermitAbi } from "./erc20";
+import { decodeHaloPaymentEvents, type HaloPaymentEventName } from "./events";
+import {
+  getEthSignedPaymentHash,
+  getPaymentMessageHash,
+  type PaymentMessage,
+} from "./hash";
+import {
+  getPermitDeadline,
+  getPermitDomain,
+  PERMIT_TYPES,
+  splitPermitSignature,
+  type PermitDomain,
+  type SignedPermit,
+} from "./permit";
+
+export interface HaloPaymentClientConfig {
+  // Deployed HaloPayment contract
+  address: Address;
+  publicClient: PublicClient<Transport, Chain>;
+  // Only needed for the write methods
+  walletClient?: WalletClient<Transport, Chain | undefined, Account | undefined>;
+}
+
+export interface WriteOptions {
+  // Defaults to the wallet client's account
+  account?: Account | Address;
+}
+
+export interface AllowanceOptions extends WriteOptions {
+  // Skips the usdc() lookup when the token address is already known
+  usdc?: Address;
+}
+
+export interface ExecutePaymentArgs extends PaymentMessage {
+  signature: Hex;
+}
+
+export interface ExecutePaymentFromHaloArgs {
+  haloAddress: Address;
+  merchant: Address;
+  amount: bigint;
+  nonce: bigint;
+  signature: Hex;
+}
+
+// Blocks per log query when searching back for a payment
+const PAYMENT_SEARCH_BLOCKS = BigInt(2_000);
+
+// The contract returns the zero address for "not registered"
+const orNull = (address: Address) =>
+  isAddressEqual(address, zeroAddress) ? null : address;
+
+/**
+ * Framework-agnostic wrapper around a deployed HaloPayment contract. Reads go
+ * through `publicClient`, writes through `walletClient`; both can come from
+ * the browser wallet, a server-held key or a local anvil node.
+ */
+export function createHaloPaymentClient({
+  address,
+  publicClient,
+  walletClient,
+}: HaloPaymentClientConfig) {
+  const chainId = publicClient.chain.id;
+
+  const getWallet = (options: WriteOptions = {}) => {
+    if (!walletClient) {
+      throw new Error("A wallet client is required to send transactions");
+    }
+    const account = options.account ?? walletClient.account;
+    if (!account) {
+      throw new Error("No account available to send the transaction from");
+    }
+    return { walletClient, account, chain: walletClient.chain ?? null };
+  };
+
+  const getUsdc = async (usdc?: Address) =>
+    usdc ??
+    (await publicClient.readContract({
+      address,
+      abi: haloPaymentAbi,
+      functionName: "usdc",
+    }));
+
+  return {
+    address,
+    chainId,
+    publicClient,
+
+    // Payer for a HaLo address, or null when the tag is not registered
+    getPayerFromHaloAddress: async (haloAddress: Address) =>
+      orNull(
+        await publicClient.readContract({
+          address,
+          abi: haloPaymentAbi,
+          functionName: "getPayerFromHaloAddress",
+          args: [haloAddress],
+        })
+      ),
+
+    // HaLo address a user has authorized, or null when none is registered
+    getAuthorizedHaloAddress: async (user: Address) =>
+      orNull(
+        await publicClient.readContract({
+          address,
+          abi: haloPaymentAbi,
+          functionName: "getAuthorizedHaloAddress",
+          args: [user],
+        })
+      ),
+
+    isNonceUsed: (payer: Address, nonce: bigint) =>
+      publicClient.readContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "isNonceUsed",
+        args: [payer, nonce],
+      }),
+
+    getPaymentMessageHash: ({ payer, merchant, amount, nonce }: PaymentMessage) =>
+      publicClient.readContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "getPaymentMessageHash",
+        args: [payer, merchant, amount, nonce],
+      }),
+
+    getEthSignedMessageHash: ({
+      payer,
+      merchant,
+      amount,
+      nonce,
+    }: PaymentMessage) =>
+      publicClient.readContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "getEthSignedMessageHash",
+        args: [payer, merchant, amount, nonce],
+      }),
+
+    // Same values as the two reads above, computed without an RPC round trip
+    hashPayment: (message: PaymentMessage) =>
+      getPaymentMessageHash(message, { chainId, contract: address }),
+    hashPaymentForRecovery: (message: PaymentMessage) =>
+      getEthSignedPaymentHash(message, { chainId, contract: address }),
+
+    getUsdcAddress: () =>
+      publicClient.readContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "usdc",
+      }),
+
+    getOwner: () =>
+      publicClient.readContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "owner",
+      }),
+
+    // USDC the contract may still pull from `payer`
+    getAllowance: async (payer: Address, usdc?: Address) =>
+      publicClient.readContract({
+        address: await getUsdc(usdc),
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [payer, address],
+      }),
+
+    // Replaces the spending cap; 0 revokes the contract's access to USDC
+    setAllowance: async (amount: bigint, options: AllowanceOptions = {}) => {
+      const { walletClient, account, chain } = getWallet(options);
+      return walletClient.writeContract({
+        address: await getUsdc(options.usdc),
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [address, amount],
+        account,
+        chain,
+      });
+    },
+
+    // Permit domain of the payment token, null when it has no EIP-2612 permit
+    getUsdcPermitDomain: async (usdc?: Address) =>
+      getPermitDomain(publicClient, await getUsdc(usdc)),
+
+    /**
+     * Asks the wallet to sign an EIP-2612 permit granting this contract
+     * `value`. Nothing is sent; pass the result to
+     * `registerHaloAddressWithPermit`.
+     */
+    signUsdcPermit: async (
+      domain: PermitDomain,
+      value: bigint,
+      options: WriteOptions & { deadline?: bigint } = {}
+    ): Promise<SignedPermit> => {
+      const { walletClient, account } = getWallet(options);
+      const owner = typeof account === "string" ? account : account.address;
+      const deadline = options.deadline ?? getPermitDeadline();
+      const nonce = await publicClient.readContract({
+        address: domain.verifyingContract,
+        abi: erc20PermitAbi,
+        functionName: "nonces",
+        args: [owner],
+      });
+      const signature = await walletClient.signTypedData({
+        account,
+        domain,
+        types: PERMIT_TYPES,
+        primaryType: "Permit",
+        message: { owner, spender: address, value, nonce, deadline },
+      });
+      return { value, deadline, signature };
+    },
+
+    registerHaloAddress: (haloAddress: Address, options?: WriteOptions) => {
+      const { walletClient, account, chain } = getWallet(options);
+      return walletClient.writeContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "registerHaloAddress",
+        args: [haloAddress],
+        account,
+        chain,
+      });
+    },
+
+    // Registration and spending cap in a single transaction
+    registerHaloAddressWithPermit: (
+      haloAddress: Address,
+      { value, deadline, signature }: SignedPermit,
+      options?: WriteOptions
+    ) => {
+      const { walletClient, account, chain } = getWallet(options);
+      const { v, r, s } = splitPermitSignature(signature);
+      return walletClient.writeContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "registerHaloAddressWithPermit",
+        args: [haloAddress, value, deadline, v, r, s],
+        account,
+        chain,
+      });
+    },
+
+    revokeHaloAddress: (options?: WriteOptions) => {
+      const { walletClient, account, chain } = getWallet(options);
+      return walletClient.writeContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "revokeHaloAddress",
+        account,
+        chain,
+      });
+    },
+
+    executePayment: (
+      { payer, merchant, amount, nonce, signature }: ExecutePaymentArgs,
+      options?: WriteOptions
+    ) => {
+      const { walletClient, account, chain } = getWallet(options);
+      return walletClient.writeContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "executePayment",
+        args: [payer, merchant, amount, nonce, signature],
+        account,
+        chain,
+      });
+    },
+
+    /**
+     * Recovers the signer of a payment signature over the eth-signed message
+     * hash, exactly like the contract does, and compares it to `haloAddress`.
+     */
+    verifyPaymentSignature: async (
+      message: PaymentMessage,
+      signature: Hex,
+      haloAddress: Address
+    ) => {
+      const recovered = await recoverAddress({
+        hash: getEthSignedPaymentHash(message, { chainId, contract: address }),
+        signature,
+      });
+      return { valid: isAddressEqual(recovered, haloAddress), recovered };
+    },
+
+    // Dry-runs the payment; throws the decoded revert if it would fail
+    simulateExecutePaymentFromHalo: (
+      { haloAddress, merchant, amount, nonce, signature }: ExecutePaymentFromHaloArgs,
+      options?: WriteOptions
+    ) =>
+      publicClient.simulateContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "executePaymentFromHalo",
+        args: [haloAddress, merchant, amount, nonce, signature],
+        account: options?.account ?? walletClient?.account,
+      }),
+
+    executePaymentFromHalo: (
+      { haloAddress, merchant, amount, nonce, signature }: ExecutePaymentFromHaloArgs,
+      options?: WriteOptions
+    ) => {
+      const { walletClient, account, chain } = getWallet(options);
+      return walletClient.writeContract({
+        address,
+        abi: haloPaymentAbi,
+        functionName: "executePaymentFromHalo",
+        args: [haloAddress, merchant, amount, nonce, signature],
+        account,
+        chain,
+      });
+    },
+
+    // Calls `onPayment` whenever a payment from `payer` is mined
+    watchPayments: (payer: Address, onPayment: () => void) =>
+      publicClient.watchContractEvent({
+        address,
+        abi: haloPaymentAbi,
+        eventName: "PaymentExecuted",
+        args: { payer },
+        onLogs: onPayment,
+      }),
+
+    /**
+     * The PaymentExecuted event that used `nonce` for `payer`, or null.
+     * Searches back from the head until blocks are older than `since` (unix
+     * seconds) or `fromBlock` is reached.
+     */
+    findPaymentByNonce: async (
+      payer: Address,
+      nonce: bigint,
+      { since, fromBlock = BigInt(0) }: { since: number; fromBlock?: bigint }
+    ) => {
+      let to = await publicClient.getBlockNumber();
+      while (to >= fromBlock) {
+        const from =
+          to - fromBlock >= PAYMENT_SEARCH_BLOCKS
+            ? to - PAYMENT_SEARCH_BLOCKS + BigInt(1)
+            : fromBlock;
+        const logs = await publicClient.getContractEvents({
+          address,
+          abi: haloPaymentAbi,
+          eventName: "PaymentExecuted",
+          args: { payer },
+          fromBlock: from,
+          toBlock: to,
+          strict: true,
+        });
+        const match = logs.find((log) => log.args.nonce === nonce);
+        if (match) return match;
+        if (from === fromBlock) break;
+        const { timestamp } = await publicClient.getBlock({
+          blockNumber: from,
+        });
+        if (Number(timestamp) < since) break;
+        to = from - BigInt(1);
+      }
+      return null;
+    },
+
+    waitForTransaction: (hash: Hash) =>
+      publicClient.waitForTransactionReceipt({ hash }),
+
+    // Decodes this contract's events from a transaction receipt
+    getTransactionEvents: async <E extends HaloPaymentEventName>(
+      hash: Hash,
+      eventName?: E | E[]
+    ) => {
+      const receipt = await publicClient.getTransactionReceipt({ hash });
+      return decodeHaloPaymentEvents(
+        receipt.logs.filter((log) => isAddressEqual(log.address, address)),
+        eventName
+      );
+    },
+  };
+}
+
+export type HaloPaymentClient = ReturnType<typeof createHaloPaymentClient>;
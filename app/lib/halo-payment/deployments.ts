@@ -0,0 +1,67 @@
+import {
+  createPublicClient,
+  fallback,
+  http,
+  type Address,
+  type Chain,
+} from "viem";
+import { CHAINS, type ChainInfo, type HaloPaymentContracts } from "../chains";
+
+export interface HaloPaymentDeployment {
+  chain: Chain;
+  haloPayment: Address;
+  usdc: Address;
+  // Tried in order, the first one is the preferred endpoint
+  rpcUrls: string[];
+  // Block the contract was deployed in, where event scans start when known
+  deployBlock?: bigint;
+  // Whether the contract has registerHaloAddressWithPermit
+  supportsPermit: boolean;
+}
+
+// Contract addresses and RPCs live in the chain registry (app/lib/chains)
+const toDeployment = (
+  info: ChainInfo,
+  contracts: HaloPaymentContracts
+): HaloPaymentDeployment => ({
+  chain: info.viem,
+  haloPayment: contracts.address,
+  usdc: contracts.usdc,
+  rpcUrls: info.rpcUrls,
+  deployBlock: contracts.deployBlock,
+  supportsPermit: contracts.supportsPermit,
+});
+
+/** HaloPayment deployments keyed by chain id. */
+export const HALO_PAYMENT_DEPLOYMENTS: Record<number, HaloPaymentDeployment> =
+  Object.fromEntries(
+    CHAINS.flatMap((info) =>
+      info.haloPayment ? [[info.id, toDeployment(info, info.haloPayment)]] : []
+    )
+  );
+
+export const listDeployments = () => Object.values(HALO_PAYMENT_DEPLOYMENTS);
+
+const envDefaultChainId = process.env.NEXT_PUBLIC_HALO_DEFAULT_CHAIN_ID;
+
+// Sepolia, the first deployment in registry order, unless configured
+export const DEFAULT_CHAIN_ID =
+  envDefaultChainId && HALO_PAYMENT_DEPLOYMENTS[Number(envDefaultChainId)]
+    ? Number(envDefaultChainId)
+    : listDeployments()[0].chain.id;
+
+export function getDeployment(chainId: number): HaloPaymentDeployment {
+  const deployment = HALO_PAYMENT_DEPLOYMENTS[chainId];
+  if (!deployment) {
+    throw new Error(`HaloPayment is not deployed on chain ${chainId}`);
+  }
+  return deployment;
+}
+
+export const createDeploymentPublicClient = (
+  deployment: HaloPaymentDeployment
+) =>
+  createPublicClient({
+    chain: deployment.chain,
+    transport: fallback(deployment.rpcUrls.map((url) => http(url))),
+  });
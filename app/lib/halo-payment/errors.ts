@@ -0,0 +1,62 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+} from "viem";
+
+// Actionable explanation for every custom error HaloPayment can revert with
+export const HALO_PAYMENT_ERROR_MESSAGES: Record<string, string> = {
+  InvalidSignature:
+    "The tag's signature does not match the HaLo key registered for this payer. Ask the customer to tap the registered tag again.",
+  NonceAlreadyUsed:
+    "This payment has already been submitted. Start a new charge to get a fresh nonce.",
+  HaloAddressNotAuthorized:
+    "This HaLo tag is not registered for payments. The customer has to register it before paying.",
+  HaloAddressAlreadyRegistered:
+    "This HaLo key is already registered to another wallet. Choose another key slot or tag.",
+  InsufficientAllowance:
+    "The customer's USDC spending allowance is lower than this amount. They need to raise it before paying.",
+  PermitFailed:
+    "The USDC permit signature was rejected or has expired. Set the allowance again and retry.",
+  InvalidAmount: "The payment amount must be greater than zero.",
+  ZeroAddress: "The payer or merchant address is missing.",
+  TransferFailed:
+    "The USDC transfer failed. The customer may not hold enough USDC.",
+};
+
+const findRevert = (error: unknown) =>
+  error instanceof BaseError
+    ? (error.walk(
+        (cause) => cause instanceof ContractFunctionRevertedError
+      ) as ContractFunctionRevertedError | null)
+    : null;
+
+/** Name of the contract error behind a failed call, if it reverted with one. */
+export const getHaloPaymentErrorName = (error: unknown) =>
+  findRevert(error)?.data?.errorName;
+
+/**
+ * Turns a failed read, simulation or write into a message a merchant can act
+ * on. Falls back to viem's short message, then to `fallback`.
+ */
+export function describeHaloPaymentError(error: unknown, fallback: string) {
+  if (error instanceof BaseError) {
+    if (
+      error.walk((cause) => cause instanceof UserRejectedRequestError)
+    ) {
+      return "The transaction was rejected in the wallet.";
+    }
+
+    const revert = findRevert(error);
+    const errorName = revert?.data?.errorName;
+    if (errorName && HALO_PAYMENT_ERROR_MESSAGES[errorName]) {
+      return HALO_PAYMENT_ERROR_MESSAGES[errorName];
+    }
+    // USDC reverts with a plain reason string when the payer is short
+    if (revert?.reason?.includes("exceeds balance")) {
+      return "The customer does not hold enough USDC for this payment.";
+    }
+    return error.shortMessage || fallback;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
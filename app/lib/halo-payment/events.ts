@@ -0,0 +1,26 @@
+import { parseEventLogs, type Log } from "viem";
+import { haloPaymentAbi } from "./abi";
+
+export type HaloPaymentEventName =
+  | "HaloAddressRegistered"
+  | "HaloAddressRevoked"
+  | "OwnershipTransferred"
+  | "PaymentExecuted";
+
+/**
+ * Decodes the HaloPayment events found in `logs`, skipping logs emitted by
+ * other contracts or with other signatures. Pass `eventName` to narrow the
+ * result to a single event type.
+ */
+export function decodeHaloPaymentEvents<
+  E extends HaloPaymentEventName = HaloPaymentEventName
+>(logs: Log[], eventName?: E | E[]) {
+  return parseEventLogs({
+    abi: haloPaymentAbi,
+    logs,
+    eventName,
+  });
+}
+
+export const decodePaymentExecutedEvents = (logs: Log[]) =>
+  decodeHaloPaymentEvents(logs, "PaymentExecuted");
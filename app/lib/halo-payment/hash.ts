@@ -0,0 +1,36 @@
+import { encodePacked, hashMessage, keccak256, type Address } from "viem";
+
+export interface PaymentMessage {
+  payer: Address;
+  merchant: Address;
+  amount: bigint;
+  nonce: bigint;
+}
+
+export interface PaymentDomain {
+  chainId: number;
+  contract: Address;
+}
+
+/**
+ * Local equivalent of `getPaymentMessageHash`: keccak256 of
+ * `abi.encodePacked("HaloPayment:", payer, merchant, amount, nonce, chainid,
+ * contract)`. This is what the HaLo tag signs (as a `hex` message).
+ */
+export function getPaymentMessageHash(
+  { payer, merchant, amount, nonce }: PaymentMessage,
+  { chainId, contract }: PaymentDomain
+) {
+  return keccak256(
+    encodePacked(
+      ["string", "address", "address", "uint256", "uint256", "uint256", "address"],
+      ["HaloPayment:", payer, merchant, amount, nonce, BigInt(chainId), contract]
+    )
+  );
+}
+
+// Local equivalent of `getEthSignedMessageHash`, the digest the contract recovers from
+export const getEthSignedPaymentHash = (
+  message: PaymentMessage,
+  domain: PaymentDomain
+) => hashMessage({ raw: getPaymentMessageHash(message, domain) });
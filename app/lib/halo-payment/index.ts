@@ -0,0 +1,12 @@
+export { haloPaymentAbi } from "./abi";
+export { erc20Abi, erc20PermitAbi } from "./erc20";
+export * from "./client";
+export * from "./errors";
+export * from "./events";
+export * from "./hash";
+export * from "./nonce";
+export * from "./permit";
+export * from "./deployments";
+export * from "./slots";
+export * from "./receipt";
+export * from "./request";
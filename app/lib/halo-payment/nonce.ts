@@ -0,0 +1,91 @@
+import { bytesToBigInt, keccak256, stringToBytes, toHex } from "viem";
+import { getHaloPaymentErrorName } from "./errors";
+
+export type NonceStrategy = "random" | "terminal";
+
+// Where this device's terminal id is kept between sessions
+const TERMINAL_ID_STORAGE_KEY = "halo-terminal-id";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+const randomBits = (bytes: number) =>
+  bytesToBigInt(crypto.getRandomValues(new Uint8Array(bytes)));
+
+export class NonceAllocationError extends Error {
+  constructor(attempts: number) {
+    super(`Could not find an unused payment nonce after ${attempts} attempts`);
+    this.name = "NonceAllocationError";
+  }
+}
+
+// Thrown when a nonce was consumed between allocation and submission
+export class NonceCollisionError extends Error {
+  constructor(public readonly nonce: bigint) {
+    super(`Payment nonce ${nonce} has already been used`);
+    this.name = "NonceCollisionError";
+  }
+}
+
+// Uniformly random 256-bit nonce
+export const randomNonce = () => randomBits(32);
+
+/**
+ * Nonce scoped to a terminal. The top 64 bits hold a truncated hash of the
+ * terminal id, the next 64 bits the current time in milliseconds and the low
+ * 128 bits are random. Collisions are unlikely rather than impossible: two
+ * terminals can share a 64-bit hash, and the random bits only make a clash in
+ * the same millisecond improbable. `allocateNonce` checks each value on-chain
+ * and callers retry on `isNonceCollision`.
+ */
+export function terminalNonce(terminalId: string, now = Date.now()) {
+  const namespace = BigInt(keccak256(stringToBytes(terminalId)).slice(0, 18));
+  return (
+    (namespace << BigInt(192)) |
+    (BigInt(now) << BigInt(128)) |
+    randomBits(16)
+  );
+}
+
+export function getTerminalId(): string {
+  if (typeof window === "undefined") {
+    return toHex(crypto.getRandomValues(new Uint8Array(16)));
+  }
+  let terminalId = window.localStorage.getItem(TERMINAL_ID_STORAGE_KEY);
+  if (!terminalId) {
+    terminalId = crypto.randomUUID();
+    window.localStorage.setItem(TERMINAL_ID_STORAGE_KEY, terminalId);
+  }
+  return terminalId;
+}
+
+export const generateNonce = (strategy: NonceStrategy) =>
+  strategy === "terminal" ? terminalNonce(getTerminalId()) : randomNonce();
+
+export interface AllocateNonceOptions {
+  // Checks the contract's `isNonceUsed(payer, nonce)` for the payer
+  isNonceUsed: (nonce: bigint) => Promise<boolean>;
+  strategy?: NonceStrategy;
+  maxAttempts?: number;
+}
+
+/**
+ * Generates nonces until one is confirmed unused on-chain. Call it right
+ * before asking the customer to tap so the signed nonce is fresh.
+ */
+export async function allocateNonce({
+  isNonceUsed,
+  strategy = "random",
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+}: AllocateNonceOptions): Promise<bigint> {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const nonce = generateNonce(strategy);
+    if (!(await isNonceUsed(nonce))) {
+      return nonce;
+    }
+  }
+  throw new NonceAllocationError(maxAttempts);
+}
+
+export const isNonceCollision = (error: unknown) =>
+  error instanceof NonceCollisionError ||
+  getHaloPaymentErrorName(error) === "NonceAlreadyUsed";
@@ -0,0 +1,103 @@
+import {
+  domainSeparator,
+  parseSignature,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+} from "viem";
+import { erc20PermitAbi } from "./erc20";
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+// How long a permit signed in the UI stays usable
+export const PERMIT_TTL_SECONDS = 30 * 60;
+
+export interface PermitDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: Address;
+}
+
+export interface SignedPermit {
+  value: bigint;
+  deadline: bigint;
+  signature: Hex;
+}
+
+export const getPermitDeadline = (ttlSeconds = PERMIT_TTL_SECONDS) =>
+  BigInt(Math.floor(Date.now() / 1000) + ttlSeconds);
+
+// EIP-5267 first, then the name()/version() pair USDC exposes
+async function readDomainFields(
+  publicClient: PublicClient<Transport, Chain>,
+  token: Address
+) {
+  try {
+    const [, name, version] = await publicClient.readContract({
+      address: token,
+      abi: erc20PermitAbi,
+      functionName: "eip712Domain",
+    });
+    return { name, version };
+  } catch {
+    const [name, version] = await Promise.all([
+      publicClient.readContract({
+        address: token,
+        abi: erc20PermitAbi,
+        functionName: "name",
+      }),
+      publicClient.readContract({
+        address: token,
+        abi: erc20PermitAbi,
+        functionName: "version",
+      }),
+    ]);
+    return { name, version };
+  }
+}
+
+/**
+ * EIP-712 domain for `token`'s permit, or null when the token does not
+ * implement EIP-2612. The domain is only trusted when it reproduces the
+ * token's DOMAIN_SEPARATOR, so a wrong guess never produces a bad signature.
+ */
+export async function getPermitDomain(
+  publicClient: PublicClient<Transport, Chain>,
+  token: Address
+): Promise<PermitDomain | null> {
+  try {
+    const [separator, fields] = await Promise.all([
+      publicClient.readContract({
+        address: token,
+        abi: erc20PermitAbi,
+        functionName: "DOMAIN_SEPARATOR",
+      }),
+      readDomainFields(publicClient, token),
+    ]);
+    const domain = {
+      ...fields,
+      chainId: publicClient.chain.id,
+      verifyingContract: token,
+    };
+    return domainSeparator({ domain }) === separator ? domain : null;
+  } catch {
+    return null;
+  }
+}
+
+// The contract takes the permit signature split into v, r and s
+export function splitPermitSignature(signature: Hex) {
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { v: Number(v ?? BigInt(yParity + 27)), r, s };
+}
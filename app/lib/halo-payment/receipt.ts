@@ -0,0 +1,49 @@
+import type { Address, Hash } from "viem";
+import type { HaloPaymentClient } from "./client";
+
+export interface PaymentReceipt {
+  txHash: Hash;
+  payer: Address;
+  merchant: Address;
+  haloAddress: Address;
+  amount: bigint;
+  nonce: bigint;
+  blockNumber: bigint;
+  // Unix seconds of the block
+  timestamp: number;
+}
+
+// A receipt opened right after paying may still be waiting to be mined
+const CONFIRMATION_TIMEOUT_MS = 60_000;
+
+// Shareable page for a payment, see app/receipt/[chainId]/[txHash]
+export const getReceiptPath = (chainId: number, hash: Hash) =>
+  `/receipt/${chainId}/${hash}`;
+
+/**
+ * Reads the PaymentExecuted event of a payment transaction. Returns null when
+ * the transaction holds no HaloPayment payment, e.g. a registration.
+ */
+export async function fetchPaymentReceipt(
+  haloPayment: HaloPaymentClient,
+  hash: Hash
+): Promise<PaymentReceipt | null> {
+  await haloPayment.publicClient.waitForTransactionReceipt({
+    hash,
+    timeout: CONFIRMATION_TIMEOUT_MS,
+  });
+  const [payment] = await haloPayment.getTransactionEvents(
+    hash,
+    "PaymentExecuted"
+  );
+  if (!payment) return null;
+  const block = await haloPayment.publicClient.getBlock({
+    blockNumber: payment.blockNumber,
+  });
+  return {
+    txHash: hash,
+    ...payment.args,
+    blockNumber: payment.blockNumber,
+    timestamp: Number(block.timestamp),
+  };
+}
@@ -0,0 +1,151 @@
+import {
+  hashTypedData,
+  hexToBigInt,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  recoverTypedDataAddress,
+  type Address,
+  type Hex,
+} from "viem";
+
+// What a merchant asks to be paid, signed with EIP-712 by the merchant wallet
+export interface PaymentRequest {
+  chainId: number;
+  // HaloPayment contract the request is bound to
+  contract: Address;
+  merchant: Address;
+  amount: bigint;
+  // Unix seconds after which the request can no longer be paid
+  expiry: number;
+  // Free-form invoice or order reference
+  reference: string;
+}
+
+export interface SignedPaymentRequest extends PaymentRequest {
+  signature: Hex;
+}
+
+export const PAYMENT_REQUEST_TYPES = {
+  PaymentRequest: [
+    { name: "merchant", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "expiry", type: "uint64" },
+    { name: "reference", type: "string" },
+  ],
+} as const;
+
+export const getPaymentRequestTypedData = (request: PaymentRequest) => ({
+  domain: {
+    name: "HaloPayment Request",
+    version: "1",
+    chainId: request.chainId,
+    verifyingContract: request.contract,
+  },
+  types: PAYMENT_REQUEST_TYPES,
+  primaryType: "PaymentRequest" as const,
+  message: {
+    merchant: request.merchant,
+    amount: request.amount,
+    expiry: BigInt(request.expiry),
+    reference: request.reference,
+  },
+});
+
+/**
+ * Payment nonce for a request. Deriving it from the request means a payer can
+ * never settle the same invoice twice, the contract rejects the second try
+ * with NonceAlreadyUsed.
+ */
+export const getPaymentRequestNonce = (request: PaymentRequest) =>
+  hexToBigInt(hashTypedData(getPaymentRequestTypedData(request)));
+
+export const isPaymentRequestExpired = (
+  request: PaymentRequest,
+  now = Date.now()
+) => request.expiry * 1000 <= now;
+
+/** Checks that the request was signed by the merchant it pays. */
+export async function verifyPaymentRequest(request: SignedPaymentRequest) {
+  const signer = await recoverTypedDataAddress({
+    ...getPaymentRequestTypedData(request),
+    signature: request.signature,
+  });
+  return isAddressEqual(signer, request.merchant);
+}
+
+// Compact URL form: short keys, bigints as strings, base64url encoded
+interface EncodedPaymentRequest {
+  c: number;
+  h: Address;
+  m: Address;
+  a: string;
+  e: number;
+  r: string;
+  s: Hex;
+}
+
+const toBase64Url = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  new TextDecoder().decode(
+    Uint8Array.from(
+      atob(value.replace(/-/g, "+").replace(/_/g, "/")),
+      (char) => char.charCodeAt(0)
+    )
+  );
+
+export function encodePaymentRequest(request: SignedPaymentRequest) {
+  const encoded: EncodedPaymentRequest = {
+    c: request.chainId,
+    h: request.contract,
+    m: request.merchant,
+    a: request.amount.toString(),
+    e: request.expiry,
+    r: request.reference,
+    s: request.signature,
+  };
+  return toBase64Url(JSON.stringify(encoded));
+}
+
+/** Parses the `r` parameter of a payment link; throws on malformed input. */
+export function decodePaymentRequest(value: string): SignedPaymentRequest {
+  let encoded: Partial<EncodedPaymentRequest>;
+  try {
+    encoded = JSON.parse(fromBase64Url(value));
+  } catch {
+    throw new Error("This payment link is damaged or incomplete.");
+  }
+  if (
+    !Number.isInteger(encoded.c) ||
+    !encoded.h ||
+    !isAddress(encoded.h) ||
+    !encoded.m ||
+    !isAddress(encoded.m) ||
+    !/^\d+$/.test(encoded.a ?? "") ||
+    !Number.isInteger(encoded.e) ||
+    typeof encoded.r !== "string" ||
+    !encoded.s ||
+    !isHex(encoded.s)
+  ) {
+    throw new Error("This payment link is damaged or incomplete.");
+  }
+  return {
+    chainId: encoded.c as number,
+    contract: encoded.h,
+    merchant: encoded.m,
+    amount: BigInt(encoded.a as string),
+    expiry: encoded.e as number,
+    reference: encoded.r,
+    signature: encoded.s,
+  };
+}
+
+export const getPaymentRequestUrl = (
+  origin: string,
+  request: SignedPaymentRequest
+) => `${origin}/pay?r=${encodePaymentRequest(request)}`;
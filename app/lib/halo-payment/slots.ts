@@ -0,0 +1,144 @@
+import type { Address } from "viem";
+import { createHaloPaymentClient, type HaloPaymentClient } from "./client";
+import {
+  createDeploymentPublicClient,
+  listDeployments,
+  type HaloPaymentDeployment,
+} from "./deployments";
+
+export interface HaloSlotRegistration {
+  keyNo: string;
+  haloAddress: Address;
+  // Null when the slot is not registered to anyone
+  payer: Address | null;
+}
+
+/**
+ * Looks up the registration of every key slot read from a tag with
+ * `get_pkeys`, in slot order.
+ */
+export async function getSlotRegistrations(
+  haloPayment: HaloPaymentClient,
+  etherAddresses: { [keyNo: string]: Address }
+): Promise<HaloSlotRegistration[]> {
+  const entries = Object.entries(etherAddresses).sort(
+    ([a], [b]) => Number(a) - Number(b)
+  );
+  return Promise.all(
+    entries.map(async ([keyNo, haloAddress]) => ({
+      keyNo,
+      haloAddress,
+      payer: await haloPayment.getPayerFromHaloAddress(haloAddress),
+    }))
+  );
+}
+
+// First slot on the tag that is registered to a payer, if any
+export async function findRegisteredSlot(
+  haloPayment: HaloPaymentClient,
+  etherAddresses: { [keyNo: string]: Address }
+) {
+  const registrations = await getSlotRegistrations(haloPayment, etherAddresses);
+  return registrations.find(
+    (registration): registration is HaloSlotRegistration & { payer: Address } =>
+      registration.payer !== null
+  );
+}
+
+export interface DeploymentSlotRegistrations {
+  deployment: HaloPaymentDeployment;
+  registrations?: HaloSlotRegistration[];
+  // Set when the chain could not be queried, e.g. its RPC is down
+  error?: string;
+}
+
+/**
+ * Runs `getSlotRegistrations` against every configured deployment. A chain
+ * that cannot be reached is reported on its own entry instead of failing the
+ * whole lookup.
+ */
+export function getSlotRegistrationsOnAllDeployments(etherAddresses: {
+  [keyNo: string]: Address;
+}): Promise<DeploymentSlotRegistrations[]> {
+  return Promise.all(
+    listDeployments().map(async (deployment) => {
+      try {
+        const haloPayment = createHaloPaymentClient({
+          address: deployment.haloPayment,
+          publicClient: createDeploymentPublicClient(deployment),
+        });
+        return {
+          deployment,
+          registrations: await getSlotRegistrations(haloPayment, etherAddresses),
+        };
+      } catch (err) {
+        return {
+          deployment,
+          error: err instanceof Error ? err.message : "Lookup failed",
+        };
+      }
+    })
+  );
+}
+
+export interface HaloRecipient {
+  // Where funds for this tag should go
+  address: Address;
+  keyNo: string;
+  haloAddress: Address;
+  // "registration" when a payer owns the tag, "tag" when falling back to the
+  // tag's own address
+  source: "registration" | "tag";
+  // Deployment the registration was found on
+  deployment?: HaloPaymentDeployment;
+}
+
+/**
+ * Resolves a scanned tag to the person behind it. Registrations on the
+ * deployment for `preferredChainId` win, then any other deployment; a tag
+ * registered nowhere resolves to its lowest key slot's own address.
+ */
+export async function resolveHaloRecipient(
+  etherAddresses: { [keyNo: string]: Address },
+  preferredChainId?: number
+): Promise<HaloRecipient> {
+  const results = await getSlotRegistrationsOnAllDeployments(etherAddresses);
+  const ordered = [
+    ...results.filter(
+      ({ deployment }) => deployment.chain.id === preferredChainId
+    ),
+    ...results.filter(
+      ({ deployment }) => deployment.chain.id !== preferredChainId
+    ),
+  ];
+  for (const { deployment, registrations } of ordered) {
+    const registered = registrations?.find(({ payer }) => payer !== null);
+    if (registered?.payer) {
+      return {
+        address: registered.payer,
+        keyNo: registered.keyNo,
+        haloAddress: registered.haloAddress,
+        source: "registration",
+        deployment,
+      };
+    }
+  }
+
+  // Only fall back to the tag itself once every chain answered "not registered"
+  const failed = results.filter(({ error }) => error);
+  if (failed.length) {
+    throw new Error(
+      `Could not check the tag registration on ${failed
+        .map(({ deployment }) => deployment.chain.name)
+        .join(", ")}`
+    );
+  }
+
+  const [keyNo, haloAddress] = Object.entries(etherAddresses).sort(
+    ([a], [b]) => Number(a) - Number(b)
+  )[0] ?? [];
+  if (!haloAddress) {
+    throw new Error("No key slots found on this HaLo tag");
+  }
+  return { address: haloAddress, keyNo, haloAddress, source: "tag" };
+}
@@ -0,0 +1,113 @@
+import { getAddress, type Address, type Hex } from "viem";
+import { publicKeyToAddress } from "viem/accounts";
+import type { HaloExecutor } from "./types";
+
+// Per slot objects requested from the chip; older firmware may skip some.
+// libhalo exposes no per slot signature counter, only failed password
+// attempts.
+const SLOT_OBJECTS = ["publicKey", "keySlotFlags", "keySlotFailedAuthCtr"];
+
+export interface HaloKeySlotDiagnostics {
+  keyNo: string;
+  address: Address;
+  publicKey?: string;
+  // Whether the public key reported by get_data_struct derives `address`
+  publicKeyMatches?: boolean;
+  flags?: unknown;
+  failedAuthCounter?: number;
+}
+
+export interface HaloDiagnostics {
+  slots: HaloKeySlotDiagnostics[];
+  firmwareVersion?: string;
+  // Some requested objects did not fit in the chip's response
+  isPartial: boolean;
+  // Why the chip data could not be read, the key inventory is still valid
+  dataStructError?: string;
+  readAt: number;
+}
+
+const withPrefix = (value: string) =>
+  (value.startsWith("0x") ? value : `0x${value}`) as Hex;
+
+const toNumber = (value: unknown) =>
+  typeof value === "number"
+    ? value
+    : typeof value === "string" && value !== ""
+      ? Number(value)
+      : undefined;
+
+const describe = (value: unknown) =>
+  value === undefined
+    ? undefined
+    : typeof value === "string"
+      ? value
+      : JSON.stringify(value);
+
+/**
+ * Reads the key inventory with `get_pkeys`, then the per slot data objects
+ * and firmware version with `get_data_struct`. On a physical chip each
+ * command is a separate tap; `onStep` reports which one is next.
+ */
+export async function readHaloDiagnostics(
+  executor: HaloExecutor,
+  onStep?: (step: "keys" | "data") => void
+): Promise<HaloDiagnostics> {
+  onStep?.("keys");
+  const { publicKeys, etherAddresses } = await executor.exec({
+    name: "get_pkeys",
+  });
+  const keyNos = Object.keys(etherAddresses).sort(
+    (a, b) => Number(a) - Number(b)
+  );
+
+  let data: { [object: string]: unknown } = {};
+  let isPartial = false;
+  let dataStructError: string | undefined;
+  try {
+    onStep?.("data");
+    const spec = [
+      ...keyNos.flatMap((keyNo) =>
+        SLOT_OBJECTS.map((object) => `${object}:${keyNo}`)
+      ),
+      "firmwareVersion",
+    ].join(",");
+    ({ data, isPartial } = await executor.exec({
+      name: "get_data_struct",
+      spec,
+    }));
+  } catch (err) {
+    dataStructError =
+      err instanceof Error ? err.message : "Failed to read chip data";
+  }
+
+  const slots = keyNos.map((keyNo): HaloKeySlotDiagnostics => {
+    const address = getAddress(etherAddresses[keyNo]);
+    const publicKey =
+      describe(data[`publicKey:${keyNo}`]) ?? publicKeys[keyNo] ?? undefined;
+    let publicKeyMatches: boolean | undefined;
+    if (publicKey) {
+      try {
+        publicKeyMatches = publicKeyToAddress(withPrefix(publicKey)) === address;
+      } catch {
+        publicKeyMatches = false;
+      }
+    }
+    return {
+      keyNo,
+      address,
+      publicKey,
+      publicKeyMatches,
+      flags: data[`keySlotFlags:${keyNo}`],
+      failedAuthCounter: toNumber(data[`keySlotFailedAuthCtr:${keyNo}`]),
+    };
+  });
+
+  return {
+    slots,
+    firmwareVersion: describe(data.firmwareVersion),
+    isPartial,
+    dataStructError,
+    readAt: Date.now(),
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import {
+  hashMessage,
+  keccak256,
+  recoverAddress,
+  recoverMessageAddress,
+  stringToHex,
+} from "viem";
+import { createHaloEmulator, parseHaloEmulatorKeys } from "./emulator";
+
+// anvil's first two development keys
+const KEY_1 =
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const ADDRESS_1 = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const KEY_2 =
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const ADDRESS_2 = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const emulator = createHaloEmulator({ "1": KEY_1, "2": KEY_2 });
+
+describe("createHaloEmulator", () => {
+  test("reports the address of every key slot", async () => {
+    const { etherAddresses, publicKeys } = await emulator.exec({
+      name: "get_pkeys",
+    });
+    expect(etherAddresses).toEqual({ "1": ADDRESS_1, "2": ADDRESS_2 });
+    expect(publicKeys["1"]).toMatch(/^04[0-9a-f]{128}$/);
+  });
+
+  test("signs a digest as-is", async () => {
+    const digest = keccak256(stringToHex("order #1"));
+    const result = await emulator.exec({
+      name: "sign",
+      keyNo: 1,
+      digest: digest.slice(2),
+    });
+    expect(result.input.digest).toBe(digest.slice(2));
+    expect(result.etherAddress).toBe(ADDRESS_1);
+    expect(
+      await recoverAddress({ hash: digest, signature: result.signature.ether })
+    ).toBe(ADDRESS_1);
+    expect(result.signature.ether).toBe(
+      `0x${result.signature.raw.r}${result.signature.raw.s}${result.signature.raw.v.toString(16)}`
+    );
+  });
+
+  test("signs hex messages with the personal message prefix", async () => {
+    const message = keccak256(stringToHex("payment"));
+    const result = await emulator.exec({
+      name: "sign",
+      keyNo: "2",
+      message: message.slice(2),
+      format: "hex",
+    });
+    expect(`0x${result.input.digest}`).toBe(hashMessage({ raw: message }));
+    expect(
+      await recoverMessageAddress({
+        message: { raw: message },
+        signature: result.signature.ether,
+      })
+    ).toBe(ADDRESS_2);
+  });
+
+  test("signs text messages", async () => {
+    const result = await emulator.exec({
+      name: "sign",
+      keyNo: 1,
+      message: "Sign in",
+      format: "text",
+    });
+    expect(
+      await recoverMessageAddress({
+        message: "Sign in",
+        signature: result.signature.ether,
+      })
+    ).toBe(ADDRESS_1);
+  });
+
+  test("rejects unknown key slots and malformed digests", async () => {
+    await expect(
+      emulator.exec({ name: "sign", keyNo: 3, digest: "00".repeat(32) })
+    ).rejects.toThrow("Key slot 3 is not available");
+    await expect(
+      emulator.exec({ name: "sign", keyNo: 1, digest: "abcd" })
+    ).rejects.toThrow("Digest must be exactly 32 bytes");
+    await expect(emulator.exec({ name: "sign", keyNo: 1 })).rejects.toThrow(
+      "Either message or digest must be provided"
+    );
+  });
+});
+
+describe("parseHaloEmulatorKeys", () => {
+  test("assigns plain keys to slots in order", () => {
+    expect(parseHaloEmulatorKeys(`${KEY_1}, ${KEY_2.slice(2)}`)).toEqual({
+      "1": KEY_1,
+      "2": KEY_2,
+    });
+  });
+
+  test("accepts explicit slots", () => {
+    expect(parseHaloEmulatorKeys(`3:${KEY_1},,7:${KEY_2}`)).toEqual({
+      "3": KEY_1,
+      "7": KEY_2,
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  hashMessage,
+  isHex,
+  parseSignature,
+  type Hex,
+  type PrivateKeyAccount,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import type {
+  HaloCommand,
+  HaloExecutor,
+  HaloGetDataStructResult,
+  HaloGetPkeysResult,
+  HaloResultMap,
+  HaloSignCommand,
+  HaloSignResult,
+} from "./types";
+
+// Private keys held by the emulated chip, indexed by key slot
+export type HaloEmulatorKeys = { [keyNo: string]: Hex };
+
+const withPrefix = (value: string): Hex =>
+  (value.startsWith("0x") ? value : `0x${value}`) as Hex;
+
+const withoutPrefix = (value: string) => value.replace(/^0x/, "");
+
+/**
+ * Software stand-in for a HaLo chip. Answers `get_pkeys`, `sign` and
+ * `get_data_struct` from locally held keys, producing the same response shape
+ * as libhalo so the rest of the app cannot tell the difference.
+ */
+export function createHaloEmulator(keys: HaloEmulatorKeys): HaloExecutor {
+  const accounts = new Map<string, PrivateKeyAccount>(
+    Object.entries(keys).map(([keyNo, privateKey]) => [
+      keyNo,
+      privateKeyToAccount(privateKey),
+    ])
+  );
+
+  const getAccount = (keyNo: string | number) => {
+    const account = accounts.get(String(keyNo));
+    if (!account) {
+      throw new Error(`Key slot ${keyNo} is not available on this HaLo tag`);
+    }
+    return account;
+  };
+
+  const getPkeys = (): HaloGetPkeysResult => {
+    const publicKeys: HaloGetPkeysResult["publicKeys"] = {};
+    const etherAddresses: HaloGetPkeysResult["etherAddresses"] = {};
+    for (const [keyNo, account] of accounts) {
+      publicKeys[keyNo] = withoutPrefix(account.publicKey);
+      etherAddresses[keyNo] = account.address;
+    }
+    return { publicKeys, etherAddresses };
+  };
+
+  // Answers the data objects a freshly personalised chip would report
+  const getDataStruct = (spec: string): HaloGetDataStructResult => {
+    const data: HaloGetDataStructResult["data"] = {};
+    for (const entry of spec.split(",").map((item) => item.trim())) {
+      const [object, keyNo] = entry.split(":");
+      if (object === "firmwareVersion") {
+        data[entry] = "emulator";
+        continue;
+      }
+      const account = keyNo !== undefined ? accounts.get(keyNo) : undefined;
+      if (!account) continue;
+      if (object === "publicKey") {
+        data[entry] = withoutPrefix(account.publicKey);
+      } else if (object === "keySlotFlags" || object === "keySlotFailedAuthCtr") {
+        data[entry] = 0;
+      }
+    }
+    return { isPartial: false, data };
+  };
+
+  const sign = async (command: HaloSignCommand): Promise<HaloSignResult> => {
+    const account = getAccount(command.keyNo);
+
+    let digest: Hex;
+    let signature: Hex;
+    if (command.digest !== undefined) {
+      digest = withPrefix(command.digest);
+      if (!isHex(digest) || digest.length !== 66) {
+        throw new Error("Digest must be exactly 32 bytes of hex");
+      }
+      signature = await account.sign({ hash: digest });
+    } else if (command.message !== undefined) {
+      const message =
+        command.format === "text"
+          ? command.message
+          : { raw: withPrefix(command.message) };
+      digest = hashMessage(message);
+      signature = await account.signMessage({ message });
+    } else {
+      throw new Error("Either message or digest must be provided");
+    }
+
+    const { r, s, v, yParity } = parseSignature(signature);
+    return {
+      input: {
+        keyNo: command.keyNo,
+        digest: withoutPrefix(digest),
+        message: command.message,
+      },
+      signature: {
+        raw: {
+          r: withoutPrefix(r),
+          s: withoutPrefix(s),
+          v: v !== undefined ? Number(v) : yParity + 27,
+        },
+        ether: signature,
+      },
+      publicKey: withoutPrefix(account.publicKey),
+      etherAddress: account.address,
+    };
+  };
+
+  return {
+    kind: "emulator",
+    isSupported: () => true,
+    exec: async <C extends HaloCommand>(command: C) => {
+      switch (command.name) {
+        case "get_pkeys":
+          return getPkeys() as HaloResultMap[C["name"]];
+        case "sign":
+          return (await sign(command)) as HaloResultMap[C["name"]];
+        case "get_data_struct":
+          return getDataStruct(command.spec) as HaloResultMap[C["name"]];
+        default:
+          throw new Error(
+            `Unsupported HaLo command: ${(command as { name: string }).name}`
+          );
+      }
+    },
+  };
+}
+
+/**
+ * Parses `NEXT_PUBLIC_HALO_EMULATOR_KEYS`-style config. Accepts either a plain
+ * comma separated list of private keys (assigned to slots 1, 2, ...) or
+ * explicit `keyNo:privateKey` pairs.
+ */
+export function parseHaloEmulatorKeys(config: string): HaloEmulatorKeys {
+  const keys: HaloEmulatorKeys = {};
+  config
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry, index) => {
+      const [keyNo, privateKey] = entry.includes(":")
+        ? entry.split(":")
+        : [String(index + 1), entry];
+      keys[keyNo.trim()] = withPrefix(privateKey.trim());
+    });
+  return keys;
+}
+
+export const randomHaloEmulatorKeys = (slots = 3): HaloEmulatorKeys => {
+  const keys: HaloEmulatorKeys = {};
+  for (let keyNo = 1; keyNo <= slots; keyNo++) {
+    keys[keyNo] = generatePrivateKey();
+  }
+  return keys;
+};
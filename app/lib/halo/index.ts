@@ -0,0 +1,61 @@
+import {
+  createHaloEmulator,
+  parseHaloEmulatorKeys,
+  randomHaloEmulatorKeys,
+  type HaloEmulatorKeys,
+} from "./emulator";
+import { webHaloExecutor } from "./webExecutor";
+import type { HaloCommand, HaloExecutor } from "./types";
+
+export * from "./types";
+export * from "./signing";
+export * from "./diagnostics";
+export { createHaloEmulator, parseHaloEmulatorKeys } from "./emulator";
+export { webHaloExecutor } from "./webExecutor";
+
+// Where generated emulator keys are kept so registrations survive reloads
+const EMULATOR_KEYS_STORAGE_KEY = "halo-emulator-keys";
+
+const loadEmulatorKeys = (): HaloEmulatorKeys => {
+  const configured = process.env.NEXT_PUBLIC_HALO_EMULATOR_KEYS;
+  if (configured) {
+    return parseHaloEmulatorKeys(configured);
+  }
+
+  if (typeof window === "undefined") {
+    return randomHaloEmulatorKeys();
+  }
+
+  const stored = window.localStorage.getItem(EMULATOR_KEYS_STORAGE_KEY);
+  if (stored) {
+    return JSON.parse(stored) as HaloEmulatorKeys;
+  }
+  const keys = randomHaloEmulatorKeys();
+  window.localStorage.setItem(EMULATOR_KEYS_STORAGE_KEY, JSON.stringify(keys));
+  return keys;
+};
+
+let executor: HaloExecutor | null = null;
+
+/**
+ * Returns the executor selected by `NEXT_PUBLIC_HALO_EXECUTOR`: `web` (the
+ * default) drives a physical chip through libhalo, `emulator` answers from
+ * software keys so the flow can be exercised without NFC hardware.
+ */
+export function getHaloExecutor(): HaloExecutor {
+  if (!executor) {
+    executor =
+      process.env.NEXT_PUBLIC_HALO_EXECUTOR === "emulator"
+        ? createHaloEmulator(loadEmulatorKeys())
+        : webHaloExecutor;
+  }
+  return executor;
+}
+
+// Override the configured executor, e.g. to inject an emulator in tests
+export function setHaloExecutor(override: HaloExecutor | null) {
+  executor = override;
+}
+
+export const execHaloCmd = <C extends HaloCommand>(command: C) =>
+  getHaloExecutor().exec(command);
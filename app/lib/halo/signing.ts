@@ -0,0 +1,171 @@
+import {
+  hashMessage,
+  hashTypedData,
+  isHex,
+  recoverAddress,
+  type Address,
+  type Hex,
+  type TypedDataDefinition,
+} from "viem";
+import type { HaloKeyNo, HaloSignCommand, HaloSignResult } from "./types";
+
+// What the signing console can put in front of a HaLo key
+export type SigningMode = "text" | "digest" | "typedData";
+
+export type TypedDataInput = TypedDataDefinition & {
+  primaryType: string;
+  message: Record<string, unknown>;
+};
+
+export type SigningInput =
+  | { mode: "text"; message: string }
+  | { mode: "digest"; digest: Hex }
+  | { mode: "typedData"; typedData: TypedDataInput };
+
+export interface SignedPayload {
+  keyNo: HaloKeyNo;
+  input: SigningInput;
+  digest: Hex;
+  signature: Hex;
+  r: Hex;
+  s: Hex;
+  v: number;
+  // Address recovered from the signature
+  signer: Address;
+  // Address the chip reports for the key slot
+  keyAddress: Address;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The primary type is the only struct no other struct refers to
+const inferPrimaryType = (types: Record<string, unknown>) => {
+  const names = Object.keys(types).filter((name) => name !== "EIP712Domain");
+  const referenced = new Set(
+    names.flatMap((name) =>
+      (types[name] as { type: string }[]).map(({ type }) =>
+        type.replace(/\[\d*\]$/, "")
+      )
+    )
+  );
+  const roots = names.filter((name) => !referenced.has(name));
+  if (roots.length !== 1) {
+    throw new Error("Could not infer primaryType, please set it explicitly");
+  }
+  return roots[0];
+};
+
+/**
+ * Parses typed data pasted as JSON. Accepts the `eth_signTypedData_v4` shape
+ * (`domain`, `types`, `primaryType`, `message`) as well as the ethers style
+ * where the message is called `value` and the primary type is implicit.
+ */
+export function parseTypedData(json: string): TypedDataInput {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("Typed data is not valid JSON");
+  }
+  if (!isObject(parsed)) {
+    throw new Error("Typed data must be a JSON object");
+  }
+
+  const { domain = {}, types, primaryType } = parsed;
+  const message = parsed.message ?? parsed.value;
+  if (!isObject(domain)) {
+    throw new Error("Typed data domain must be an object");
+  }
+  if (!isObject(types)) {
+    throw new Error("Typed data is missing types");
+  }
+  if (!isObject(message)) {
+    throw new Error("Typed data is missing the message");
+  }
+  if (primaryType !== undefined && typeof primaryType !== "string") {
+    throw new Error("Typed data primaryType must be a string");
+  }
+  const typedData = {
+    domain,
+    types,
+    primaryType: primaryType ?? inferPrimaryType(types),
+    message,
+  } as TypedDataInput;
+
+  // Surfaces missing fields and unknown types before the tag is tapped
+  try {
+    hashTypedData(typedData);
+  } catch (err) {
+    throw new Error(
+      `Typed data does not match its types: ${
+        err instanceof Error ? err.message.split("\n")[0] : String(err)
+      }`
+    );
+  }
+  return typedData;
+}
+
+const withPrefix = (value: string) =>
+  (value.startsWith("0x") ? value : `0x${value}`) as Hex;
+
+export function parseDigest(value: string): Hex {
+  const digest = withPrefix(value);
+  if (!isHex(digest) || digest.length !== 66) {
+    throw new Error("Digest must be exactly 32 bytes of hex");
+  }
+  return digest.toLowerCase() as Hex;
+}
+
+// The 32 bytes the key actually signs for a given input
+export function getSigningDigest(input: SigningInput): Hex {
+  switch (input.mode) {
+    case "text":
+      return hashMessage(input.message);
+    case "digest":
+      return input.digest;
+    case "typedData":
+      return hashTypedData(input.typedData);
+  }
+}
+
+/**
+ * Builds the HaLo command for an input. Text goes through the chip's EIP-191
+ * support; typed data is hashed here and signed as a raw digest, which yields
+ * the same signature as `eth_signTypedData_v4`.
+ */
+export function getSignCommand(
+  keyNo: HaloKeyNo,
+  input: SigningInput
+): HaloSignCommand {
+  return input.mode === "text"
+    ? { name: "sign", keyNo, message: input.message, format: "text" }
+    : { name: "sign", keyNo, digest: getSigningDigest(input).slice(2) };
+}
+
+export async function toSignedPayload(
+  input: SigningInput,
+  result: HaloSignResult
+): Promise<SignedPayload> {
+  if (!result.signature?.ether) {
+    throw new Error("No signature received from HaLo tag");
+  }
+  const digest = getSigningDigest(input);
+  return {
+    keyNo: result.input.keyNo,
+    input,
+    digest,
+    signature: result.signature.ether,
+    r: withPrefix(result.signature.raw.r),
+    s: withPrefix(result.signature.raw.s),
+    v: result.signature.raw.v,
+    signer: await recoverAddress({
+      hash: digest,
+      signature: result.signature.ether,
+    }),
+    keyAddress: result.etherAddress,
+  };
+}
+
+export const signedPayloadToJson = (payload: SignedPayload) =>
+  JSON.stringify(payload, null, 2);
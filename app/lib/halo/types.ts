@@ -0,0 +1,70 @@
+import type { Address, Hex } from "viem";
+
+// Shapes shared by every HaLo command executor. They mirror the subset of the
+// libhalo command/response format the app relies on.
+
+export type HaloKeyNo = string | number;
+
+export interface HaloGetPkeysCommand {
+  name: "get_pkeys";
+}
+
+export interface HaloSignCommand {
+  name: "sign";
+  keyNo: HaloKeyNo;
+  // Signed with the EIP-191 personal message prefix
+  message?: string;
+  format?: "text" | "hex";
+  // Signed as-is, without any prefix
+  digest?: string;
+}
+
+// Reads chip data objects, `spec` is a comma separated list such as
+// "publicKey:1,keySlotFailedAuthCtr:1,firmwareVersion"
+export interface HaloGetDataStructCommand {
+  name: "get_data_struct";
+  spec: string;
+}
+
+export type HaloCommand =
+  | HaloGetPkeysCommand
+  | HaloSignCommand
+  | HaloGetDataStructCommand;
+
+export interface HaloGetPkeysResult {
+  publicKeys: { [keyNo: string]: string };
+  etherAddresses: { [keyNo: string]: Address };
+}
+
+export interface HaloSignResult {
+  input: {
+    keyNo: HaloKeyNo;
+    digest: string;
+    message?: string;
+  };
+  signature: {
+    raw: { r: string; s: string; v: number };
+    ether: Hex;
+  };
+  publicKey: string;
+  etherAddress: Address;
+}
+
+export interface HaloGetDataStructResult {
+  // Set when the chip could not fit every requested object in one response
+  isPartial: boolean;
+  // Keyed by spec entry; objects the firmware does not know are missing
+  data: { [object: string]: unknown };
+}
+
+export interface HaloResultMap {
+  get_pkeys: HaloGetPkeysResult;
+  sign: HaloSignResult;
+  get_data_struct: HaloGetDataStructResult;
+}
+
+export interface HaloExecutor {
+  kind: "web" | "emulator";
+  isSupported: () => boolean;
+  exec: <C extends HaloCommand>(command: C) => Promise<HaloResultMap[C["name"]]>;
+}
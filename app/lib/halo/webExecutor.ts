@@ -0,0 +1,18 @@
+import type { HaloCommand, HaloExecutor, HaloResultMap } from "./types";
+
+// Talks to a physical HaLo chip over Web NFC / WebAuthn through libhalo
+export const webHaloExecutor: HaloExecutor = {
+  kind: "web",
+
+  isSupported: () =>
+    typeof window !== "undefined" &&
+    ("NDEFReader" in window || !!navigator.credentials),
+
+  exec: async <C extends HaloCommand>(command: C) => {
+    if (!webHaloExecutor.isSupported()) {
+      throw new Error("NFC not supported on this device/browser");
+    }
+    const { execHaloCmdWeb } = await import("@arx-research/libhalo/api/web");
+    return (await execHaloCmdWeb(command)) as HaloResultMap[C["name"]];
+  },
+};
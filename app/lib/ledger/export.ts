@@ -0,0 +1,64 @@
+import { formatUnits } from "viem";
+import { USDC_DECIMALS } from "../pos/cart";
+import type { LedgerPayment } from "./indexer";
+
+const CSV_COLUMNS = [
+  "date",
+  "amount_usdc",
+  "payer",
+  "halo_address",
+  "merchant",
+  "nonce",
+  "block_number",
+  "tx_hash",
+] as const;
+
+// Plain decimal, independent of the browser locale and exact for any amount
+export const formatUsdcAmount = (amount: string) =>
+  formatUnits(BigInt(amount), USDC_DECIMALS);
+
+const csvCell = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function ledgerToCsv(payments: LedgerPayment[]) {
+  const rows = payments.map((payment) =>
+    [
+      new Date(payment.timestamp * 1000).toISOString(),
+      formatUsdcAmount(payment.amount),
+      payment.payer,
+      payment.haloAddress,
+      payment.merchant,
+      payment.nonce,
+      payment.blockNumber,
+      payment.txHash,
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+export const ledgerToJson = (payments: LedgerPayment[]) =>
+  JSON.stringify(
+    payments.map((payment) => ({
+      ...payment,
+      date: new Date(payment.timestamp * 1000).toISOString(),
+      amountUsdc: formatUsdcAmount(payment.amount),
+    })),
+    null,
+    2
+  );
+
+// Saves `contents` through a temporary object URL
+export function downloadFile(
+  filename: string,
+  contents: string,
+  type: string
+) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
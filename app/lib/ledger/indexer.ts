@@ -0,0 +1,224 @@
+import type { Address, Chain, Hash, PublicClient, Transport } from "viem";
+import { haloPaymentAbi, type HaloPaymentDeployment } from "../halo-payment";
+
+// One PaymentExecuted event received by the merchant. bigints are strings
+// so entries survive JSON round trips through localStorage and exports.
+export interface LedgerPayment {
+  txHash: Hash;
+  logIndex: number;
+  blockNumber: string;
+  // Unix seconds of the block
+  timestamp: number;
+  payer: Address;
+  merchant: Address;
+  haloAddress: Address;
+  amount: string;
+  nonce: string;
+}
+
+// Inclusive block range, as decimal strings
+export type BlockRange = [string, string];
+
+interface LedgerCache {
+  version: 2;
+  ranges: BlockRange[];
+  payments: LedgerPayment[];
+}
+
+export interface SyncProgress {
+  scannedBlocks: bigint;
+  totalBlocks: bigint;
+  payments: number;
+}
+
+export interface SyncMerchantLedgerOptions {
+  deployment: HaloPaymentDeployment;
+  publicClient: PublicClient<Transport, Chain>;
+  merchant: Address;
+  // Blocks an event must be buried under before its range counts as scanned
+  confirmations?: number;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+// Version 1 caches could cover unconfirmed blocks, so they are rescanned
+const CACHE_VERSION = 2;
+const DEFAULT_CONFIRMATIONS = 3;
+// How far back the first sync goes when the deployment block is unknown
+const DEFAULT_LOOKBACK_BLOCKS = BigInt(200_000);
+// Public RPCs cap eth_getLogs ranges, chunks shrink when one is refused
+const MAX_CHUNK_BLOCKS = BigInt(10_000);
+const MIN_CHUNK_BLOCKS = BigInt(500);
+
+const cacheKey = (deployment: HaloPaymentDeployment, merchant: Address) =>
+  `halo-ledger:${deployment.chain.id}:${deployment.haloPayment.toLowerCase()}:${merchant.toLowerCase()}`;
+
+function loadLedgerCache(
+  deployment: HaloPaymentDeployment,
+  merchant: Address
+): LedgerCache {
+  const empty: LedgerCache = { version: CACHE_VERSION, ranges: [], payments: [] };
+  if (typeof window === "undefined") return empty;
+  try {
+    const cache = JSON.parse(
+      window.localStorage.getItem(cacheKey(deployment, merchant)) || "null"
+    );
+    return cache?.version === CACHE_VERSION ? cache : empty;
+  } catch {
+    return empty;
+  }
+}
+
+const saveLedgerCache = (
+  deployment: HaloPaymentDeployment,
+  merchant: Address,
+  cache: LedgerCache
+) =>
+  window.localStorage.setItem(
+    cacheKey(deployment, merchant),
+    JSON.stringify(cache)
+  );
+
+export const clearLedgerCache = (
+  deployment: HaloPaymentDeployment,
+  merchant: Address
+) => window.localStorage.removeItem(cacheKey(deployment, merchant));
+
+const newestFirst = (payments: LedgerPayment[]) =>
+  [...payments].sort(
+    (a, b) => b.timestamp - a.timestamp || b.logIndex - a.logIndex
+  );
+
+// What the last sync left behind, shown before a new sync finishes
+export const getCachedLedgerPayments = (
+  deployment: HaloPaymentDeployment,
+  merchant: Address
+) => newestFirst(loadLedgerCache(deployment, merchant).payments);
+
+/** Sorts ranges and merges overlapping or adjacent ones. */
+export function mergeRanges(ranges: BlockRange[]) {
+  const sorted = ranges
+    .map(([from, to]) => [BigInt(from), BigInt(to)] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const merged: [bigint, bigint][] = [];
+  for (const [from, to] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1] + BigInt(1)) {
+      if (to > last[1]) last[1] = to;
+    } else {
+      merged.push([from, to]);
+    }
+  }
+  return merged.map(([from, to]): BlockRange => [from.toString(), to.toString()]);
+}
+
+/** Parts of `[from, to]` not covered by `ranges`. */
+export function missingRanges(ranges: BlockRange[], from: bigint, to: bigint) {
+  const gaps: [bigint, bigint][] = [];
+  let cursor = from;
+  for (const [start, end] of mergeRanges(ranges).map(
+    ([a, b]) => [BigInt(a), BigInt(b)] as const
+  )) {
+    if (end < cursor) continue;
+    if (start > to) break;
+    if (start > cursor) gaps.push([cursor, start - BigInt(1)]);
+    cursor = end + BigInt(1);
+  }
+  if (cursor <= to) gaps.push([cursor, to]);
+  return gaps;
+}
+
+/**
+ * Brings the merchant's ledger up to the latest confirmed block. Blocks
+ * closer to the head could still be reorged, so they are left for a later
+ * sync. Only block ranges that were never scanned are fetched, and the cache
+ * is saved after every chunk so an interrupted sync resumes where it stopped.
+ */
+export async function syncMerchantLedger({
+  deployment,
+  publicClient,
+  merchant,
+  confirmations = DEFAULT_CONFIRMATIONS,
+  onProgress,
+}: SyncMerchantLedgerOptions) {
+  const cache = loadLedgerCache(deployment, merchant);
+  const head = await publicClient.getBlockNumber();
+  const latest =
+    head > BigInt(confirmations) ? head - BigInt(confirmations) : BigInt(0);
+  const start =
+    deployment.deployBlock ??
+    (latest > DEFAULT_LOOKBACK_BLOCKS ? latest - DEFAULT_LOOKBACK_BLOCKS : BigInt(0));
+
+  const gaps = missingRanges(cache.ranges, start, latest);
+  const totalBlocks = gaps.reduce(
+    (sum, [from, to]) => sum + to - from + BigInt(1),
+    BigInt(0)
+  );
+  const known = new Set(
+    cache.payments.map(({ txHash, logIndex }) => `${txHash}:${logIndex}`)
+  );
+  const timestamps = new Map<bigint, number>();
+  let scannedBlocks = BigInt(0);
+  let chunk = MAX_CHUNK_BLOCKS;
+
+  for (const [gapFrom, gapTo] of gaps) {
+    let from = gapFrom;
+    while (from <= gapTo) {
+      const to =
+        from + chunk - BigInt(1) < gapTo ? from + chunk - BigInt(1) : gapTo;
+      let logs;
+      try {
+        logs = await publicClient.getContractEvents({
+          address: deployment.haloPayment,
+          abi: haloPaymentAbi,
+          eventName: "PaymentExecuted",
+          args: { merchant },
+          fromBlock: from,
+          toBlock: to,
+          strict: true,
+        });
+      } catch (err) {
+        if (chunk <= MIN_CHUNK_BLOCKS) throw err;
+        chunk /= BigInt(2);
+        continue;
+      }
+
+      for (const log of logs) {
+        const id = `${log.transactionHash}:${log.logIndex}`;
+        if (known.has(id)) continue;
+        known.add(id);
+        if (!timestamps.has(log.blockNumber)) {
+          const block = await publicClient.getBlock({
+            blockNumber: log.blockNumber,
+          });
+          timestamps.set(log.blockNumber, Number(block.timestamp));
+        }
+        cache.payments.push({
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+          blockNumber: log.blockNumber.toString(),
+          timestamp: timestamps.get(log.blockNumber)!,
+          payer: log.args.payer,
+          merchant: log.args.merchant,
+          haloAddress: log.args.haloAddress,
+          amount: log.args.amount.toString(),
+          nonce: log.args.nonce.toString(),
+        });
+      }
+
+      cache.ranges = mergeRanges([
+        ...cache.ranges,
+        [from.toString(), to.toString()],
+      ]);
+      saveLedgerCache(deployment, merchant, cache);
+      scannedBlocks += to - from + BigInt(1);
+      onProgress?.({
+        scannedBlocks,
+        totalBlocks,
+        payments: cache.payments.length,
+      });
+      from = to + BigInt(1);
+    }
+  }
+
+  return newestFirst(cache.payments);
+}
@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import type { LedgerPayment } from "./indexer";
+import { searchLedger } from "./stats";
+
+const payment = (amount: string, nonce: string): LedgerPayment => ({
+  txHash: `0x${nonce.padStart(64, "0")}`,
+  logIndex: 0,
+  blockNumber: "100",
+  timestamp: 1_700_000_000,
+  payer: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+  merchant: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+  haloAddress: "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+  amount,
+  nonce,
+});
+
+const PAYMENTS = [payment("12500000", "1"), payment("750000", "2")];
+
+describe("searchLedger", () => {
+  test("matches amounts in USDC rather than base units", () => {
+    expect(searchLedger(PAYMENTS, "12.5")).toEqual([PAYMENTS[0]]);
+    expect(searchLedger(PAYMENTS, "0.75")).toEqual([PAYMENTS[1]]);
+    expect(searchLedger(PAYMENTS, "12500000")).toEqual([]);
+  });
+
+  test("matches addresses regardless of case", () => {
+    expect(searchLedger(PAYMENTS, " 0XF39FD6 ")).toEqual(PAYMENTS);
+  });
+});
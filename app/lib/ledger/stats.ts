@@ -0,0 +1,68 @@
+import { formatUsdcAmount } from "./export";
+import type { LedgerPayment } from "./indexer";
+
+export interface DailyTotal {
+  // Local calendar day, YYYY-MM-DD
+  day: string;
+  total: bigint;
+  count: number;
+}
+
+export interface LedgerStats {
+  total: bigint;
+  count: number;
+  uniquePayers: number;
+  averageTicket: bigint;
+  // Newest day first
+  daily: DailyTotal[];
+}
+
+export const paymentDay = ({ timestamp }: LedgerPayment) => {
+  const date = new Date(timestamp * 1000);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export function computeLedgerStats(payments: LedgerPayment[]): LedgerStats {
+  const days = new Map<string, DailyTotal>();
+  const payers = new Set<string>();
+  let total = BigInt(0);
+
+  for (const payment of payments) {
+    const amount = BigInt(payment.amount);
+    total += amount;
+    payers.add(payment.payer.toLowerCase());
+
+    const day = paymentDay(payment);
+    const entry = days.get(day) ?? { day, total: BigInt(0), count: 0 };
+    entry.total += amount;
+    entry.count++;
+    days.set(day, entry);
+  }
+
+  return {
+    total,
+    count: payments.length,
+    uniquePayers: payers.size,
+    averageTicket: payments.length ? total / BigInt(payments.length) : BigInt(0),
+    daily: [...days.values()].sort((a, b) => b.day.localeCompare(a.day)),
+  };
+}
+
+/**
+ * Case-insensitive match on payer, tag address, transaction hash, day or
+ * USDC amount as a plain decimal, e.g. "12.5".
+ */
+export function searchLedger(payments: LedgerPayment[], query: string) {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return payments;
+  return payments.filter((payment) =>
+    [
+      payment.payer,
+      payment.haloAddress,
+      payment.txHash,
+      formatUsdcAmount(payment.amount),
+      paymentDay(payment),
+    ].some((field) => field.toLowerCase().includes(needle))
+  );
+}
@@ -0,0 +1,97 @@
+// Cached balances are served at once and refetched in the background after this
+export const BALANCES_STALE_MS = 30_000;
+
+export interface BalanceSnapshot<T> {
+  data: T | undefined;
+  error: string;
+  // 0 until the first fetch succeeded, and again after an invalidation
+  updatedAt: number;
+  isValidating: boolean;
+}
+
+/**
+ * Stale-while-revalidate cache for a single fetcher, shaped for
+ * `useSyncExternalStore`. Concurrent revalidations share one request, and
+ * responses that started before `invalidate` or `clear` are dropped.
+ */
+export function createBalanceStore<T>(
+  fetcher: () => Promise<T>,
+  staleMs = BALANCES_STALE_MS
+) {
+  let snapshot: BalanceSnapshot<T> = {
+    data: undefined,
+    error: "",
+    updatedAt: 0,
+    isValidating: false,
+  };
+  let inFlight: Promise<void> | null = null;
+  let generation = 0;
+  const listeners = new Set<() => void>();
+
+  const update = (changes: Partial<BalanceSnapshot<T>>) => {
+    snapshot = { ...snapshot, ...changes };
+    listeners.forEach((listener) => listener());
+  };
+
+  const revalidate = () => {
+    if (inFlight) return inFlight;
+    const current = generation;
+    update({ isValidating: true });
+    const request = fetcher()
+      .then(
+        (data) => {
+          if (current === generation) {
+            update({ data, error: "", updatedAt: Date.now() });
+          }
+        },
+        (err) => {
+          if (current === generation) {
+            update({
+              error:
+                err instanceof Error ? err.message : "Failed to fetch balances",
+            });
+          }
+        }
+      )
+      .finally(() => {
+        if (current !== generation) return;
+        inFlight = null;
+        update({ isValidating: false });
+      });
+    inFlight = request;
+    return request;
+  };
+
+  const isStale = () => Date.now() - snapshot.updatedAt > staleMs;
+
+  return {
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+    isStale,
+    revalidate,
+    revalidateIfStale: () => (isStale() ? revalidate() : Promise.resolve()),
+
+    // Balances changed, e.g. after a bridge or transfer: refetch, keep
+    // showing the old data meanwhile
+    invalidate: () => {
+      generation++;
+      inFlight = null;
+      update({ updatedAt: 0 });
+      return revalidate();
+    },
+
+    // Drops everything, e.g. when the wallet disconnects
+    clear: () => {
+      generation++;
+      inFlight = null;
+      update({ data: undefined, error: "", updatedAt: 0, isValidating: false });
+    },
+  };
+}
+
+export type BalanceStore<T> = ReturnType<typeof createBalanceStore<T>>;
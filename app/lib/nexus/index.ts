@@ -0,0 +1,5 @@
+export * from "./balances";
+export * from "./network";
+export * from "./portfolio";
+export * from "./session";
+export * from "./tokens";
@@ -0,0 +1,30 @@
+export type NexusNetwork = "mainnet" | "testnet";
+
+export const NEXUS_NETWORKS: { network: NexusNetwork; label: string }[] = [
+  { network: "testnet", label: "Testnet" },
+  { network: "mainnet", label: "Mainnet" },
+];
+
+export const isNexusNetwork = (value: unknown): value is NexusNetwork =>
+  value === "mainnet" || value === "testnet";
+
+// Network used until a user picks one
+export const DEFAULT_NEXUS_NETWORK: NexusNetwork = isNexusNetwork(
+  process.env.NEXT_PUBLIC_NEXUS_NETWORK
+)
+  ? process.env.NEXT_PUBLIC_NEXUS_NETWORK
+  : "testnet";
+
+// The choice is kept per Privy user, visitors share one entry
+const storageKey = (userId?: string) => `nexus-network:${userId ?? "guest"}`;
+
+export function loadNexusNetwork(userId?: string): NexusNetwork {
+  if (typeof window === "undefined") return DEFAULT_NEXUS_NETWORK;
+  const stored = window.localStorage.getItem(storageKey(userId));
+  return isNexusNetwork(stored) ? stored : DEFAULT_NEXUS_NETWORK;
+}
+
+export function saveNexusNetwork(network: NexusNetwork, userId?: string) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(storageKey(userId), network);
+}
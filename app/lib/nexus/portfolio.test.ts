@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { filterAndSortAssets, isDust, type PortfolioAsset } from "./portfolio";
+
+const chain = { id: 11155111, name: "Sepolia" };
+
+describe("isDust", () => {
+  test("compares priced balances with the threshold", () => {
+    expect(isDust({ balance: "0.0002", balanceInFiat: 0.5 })).toBe(true);
+    expect(isDust({ balance: "1", balanceInFiat: 3200 })).toBe(false);
+  });
+
+  test("keeps unpriced balances unless they are empty", () => {
+    expect(isDust({ balance: "25" })).toBe(false);
+    // Nexus prices testnet tokens at 0
+    expect(isDust({ balance: "25", balanceInFiat: 0 })).toBe(false);
+    expect(isDust({ balance: "0", balanceInFiat: 0 })).toBe(true);
+  });
+});
+
+describe("filterAndSortAssets", () => {
+  test("does not hide unpriced testnet balances as dust", () => {
+    const assets: PortfolioAsset[] = [
+      {
+        symbol: "USDC",
+        balance: "25",
+        balanceInFiat: 0,
+        breakdown: [{ chain, balance: "25", balanceInFiat: 0 }],
+      },
+      {
+        symbol: "ETH",
+        balance: "0.0001",
+        balanceInFiat: 0.32,
+        breakdown: [{ chain, balance: "0.0001", balanceInFiat: 0.32 }],
+      },
+    ];
+    const visible = filterAndSortAssets(
+      assets,
+      { query: "", chainId: chain.id, hideDust: true },
+      "value"
+    );
+    expect(visible.map(({ symbol }) => symbol)).toEqual(["USDC"]);
+  });
+});
@@ -0,0 +1,184 @@
+import { getChainInfo } from "../chains";
+
+// Balances worth less than this, in USD, count as dust
+export const DUST_THRESHOLD_USD = 1;
+
+// The slices of a Nexus `UserAsset` and its `breakdown` the dashboard reads
+export interface ChainBalance {
+  chain: { id: number; name: string; logo?: string };
+  balance: string;
+  balanceInFiat?: number;
+}
+
+export interface PortfolioAsset {
+  symbol: string;
+  balance: string;
+  balanceInFiat?: number;
+  breakdown?: ChainBalance[];
+}
+
+export interface ChainBreakdownRow {
+  chainId: number;
+  chainName: string;
+  logoUrl?: string;
+  balance: string;
+  fiat?: number;
+  // Percentage of the asset's total, by fiat value when Nexus priced it
+  share: number;
+}
+
+export interface AllocationSlice {
+  key: string;
+  label: string;
+  fiat: number;
+  share: number;
+}
+
+export type AssetSortKey = "value" | "symbol" | "chains";
+export type AllocationGrouping = "chain" | "token";
+
+export const ASSET_SORT_OPTIONS: { key: AssetSortKey; label: string }[] = [
+  { key: "value", label: "Value (high to low)" },
+  { key: "symbol", label: "Name (A to Z)" },
+  { key: "chains", label: "Most chains" },
+];
+
+const toAmount = (balance: string) => Number(balance) || 0;
+
+/**
+ * Unpriced balances are only dust when empty, so testnet tokens without a
+ * price are never hidden. Nexus reports those with a fiat value of 0.
+ */
+export const isDust = (entry: { balance: string; balanceInFiat?: number }) =>
+  entry.balanceInFiat
+    ? entry.balanceInFiat < DUST_THRESHOLD_USD
+    : toAmount(entry.balance) === 0;
+
+/** Per-chain rows for one asset, largest first. */
+export function getChainBreakdown(
+  asset: PortfolioAsset,
+  hideDust: boolean
+): ChainBreakdownRow[] {
+  const entries = (asset.breakdown ?? []).filter(
+    (entry) => !hideDust || !isDust(entry)
+  );
+  const byFiat = entries.some((entry) => !!entry.balanceInFiat);
+  const weight = (entry: ChainBalance) =>
+    byFiat ? (entry.balanceInFiat ?? 0) : toAmount(entry.balance);
+  const total = entries.reduce((sum, entry) => sum + weight(entry), 0);
+
+  return entries
+    .map((entry) => {
+      // Registry names and logos where the app knows the chain
+      const info = getChainInfo(entry.chain.id);
+      return {
+        chainId: entry.chain.id,
+        chainName: info?.name ?? entry.chain.name,
+        logoUrl: info?.logoUrl ?? entry.chain.logo,
+        balance: entry.balance,
+        fiat: entry.balanceInFiat,
+        share: total > 0 ? (weight(entry) / total) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.share - a.share);
+}
+
+/** Fiat value of the portfolio grouped by chain or by token, largest first. */
+export function getAllocation(
+  assets: PortfolioAsset[],
+  grouping: AllocationGrouping,
+  hideDust: boolean
+): AllocationSlice[] {
+  const totals = new Map<string, { label: string; fiat: number }>();
+  const add = (key: string, label: string, fiat: number) => {
+    const current = totals.get(key);
+    totals.set(key, { label, fiat: (current?.fiat ?? 0) + fiat });
+  };
+
+  for (const asset of assets) {
+    if (grouping === "token") {
+      if (!hideDust || !isDust(asset)) {
+        add(asset.symbol, asset.symbol, asset.balanceInFiat ?? 0);
+      }
+      continue;
+    }
+    for (const entry of asset.breakdown ?? []) {
+      if (hideDust && isDust(entry)) continue;
+      add(
+        String(entry.chain.id),
+        getChainInfo(entry.chain.id)?.name ?? entry.chain.name,
+        entry.balanceInFiat ?? 0
+      );
+    }
+  }
+
+  const total = Array.from(totals.values()).reduce(
+    (sum, { fiat }) => sum + fiat,
+    0
+  );
+  return Array.from(totals.entries())
+    .filter(([, { fiat }]) => fiat > 0)
+    .map(([key, { label, fiat }]) => ({
+      key,
+      label,
+      fiat,
+      share: (fiat / total) * 100,
+    }))
+    .sort((a, b) => b.fiat - a.fiat);
+}
+
+export interface AssetFilter {
+  query: string;
+  // Only assets held on this chain, or every chain when null
+  chainId: number | null;
+  hideDust: boolean;
+}
+
+/** Assets matching `filter`, ordered by `sortKey`. */
+export function filterAndSortAssets<T extends PortfolioAsset>(
+  assets: T[],
+  filter: AssetFilter,
+  sortKey: AssetSortKey
+): T[] {
+  const query = filter.query.trim().toLowerCase();
+  const chainCount = (asset: T) =>
+    getChainBreakdown(asset, filter.hideDust).length;
+
+  return assets
+    .filter((asset) => !filter.hideDust || !isDust(asset))
+    .filter((asset) => !query || asset.symbol.toLowerCase().includes(query))
+    .filter(
+      (asset) =>
+        filter.chainId === null ||
+        getChainBreakdown(asset, filter.hideDust).some(
+          (row) => row.chainId === filter.chainId
+        )
+    )
+    .sort((a, b) => {
+      if (sortKey === "symbol") return a.symbol.localeCompare(b.symbol);
+      if (sortKey === "chains") return chainCount(b) - chainCount(a);
+      return (b.balanceInFiat ?? 0) - (a.balanceInFiat ?? 0);
+    });
+}
+
+/** Chains that hold any of `assets`, for the chain filter. */
+export function getHeldChains(assets: PortfolioAsset[], hideDust: boolean) {
+  const chains = new Map<number, string>();
+  for (const asset of assets) {
+    for (const row of getChainBreakdown(asset, hideDust)) {
+      chains.set(row.chainId, row.chainName);
+    }
+  }
+  return Array.from(chains, ([id, name]) => ({ id, name })).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+export const formatFiat = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(value);
+
+export const formatShare = (share: number) =>
+  share > 0 && share < 0.1 ? "<0.1%" : `${share.toFixed(1)}%`;
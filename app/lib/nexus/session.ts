@@ -0,0 +1,23 @@
+export type NexusStatus = "idle" | "initializing" | "ready" | "error";
+
+export type NexusSessionEvent = "start" | "succeed" | "fail" | "reset";
+
+// Events a status does not list leave it unchanged
+const TRANSITIONS: Record<
+  NexusStatus,
+  Partial<Record<NexusSessionEvent, NexusStatus>>
+> = {
+  idle: { start: "initializing" },
+  initializing: { succeed: "ready", fail: "error", reset: "idle" },
+  ready: { reset: "idle" },
+  error: { start: "initializing", reset: "idle" },
+};
+
+export const transitionNexusStatus = (
+  status: NexusStatus,
+  event: NexusSessionEvent
+) => TRANSITIONS[status][event] ?? status;
+
+// Only an idle or failed session may start initializing
+export const canStartNexusSession = (status: NexusStatus) =>
+  transitionNexusStatus(status, "start") !== status;
@@ -0,0 +1,180 @@
+import { formatUnits, parseUnits } from "viem";
+import type { ChainInfo } from "../chains";
+
+export interface NexusTokenInfo {
+  symbol: string;
+  name: string;
+  decimals: number;
+  // Native gas tokens only arrive on chains whose native currency they are
+  native: boolean;
+}
+
+export interface TokenOption extends NexusTokenInfo {
+  // Unified balance across chains, as a decimal string
+  balance: string;
+}
+
+// The slice of a Nexus `UserAsset` the forms need
+export interface AssetBalance {
+  symbol: string;
+  balance: string;
+  decimals?: number;
+}
+
+// Tokens Nexus bridges and transfers, in selector order
+export const NEXUS_TOKENS: NexusTokenInfo[] = [
+  { symbol: "USDC", name: "USD Coin", decimals: 6, native: false },
+  { symbol: "USDT", name: "Tether USD", decimals: 6, native: false },
+  { symbol: "ETH", name: "Ether", decimals: 18, native: true },
+];
+
+export const DEFAULT_TOKEN = "USDC";
+
+// A chain in the SDK's supported-chains metadata
+export interface NexusSupportedChain {
+  id: number;
+  // Absent when the SDK build does not list tokens per chain
+  tokens?: { symbol: string }[];
+}
+
+// The slice of the SDK's `utils` read for support data. Builds differ in
+// what they expose, so every member is optional.
+export interface NexusSupportSource {
+  getSupportedChains?: () => NexusSupportedChain[];
+  isSupportedToken?: (token: string) => boolean;
+}
+
+// What Nexus bridges and transfers on the active network
+export interface NexusSupport {
+  tokens: NexusTokenInfo[];
+  // Token symbols accepted per chain id
+  chainTokens: Map<number, string[]>;
+}
+
+const registrySupport = (chains: ChainInfo[]): NexusSupport => ({
+  tokens: NEXUS_TOKENS,
+  chainTokens: new Map(
+    chains.map((chain) => [
+      chain.id,
+      NEXUS_TOKENS.filter(
+        (token) => !token.native || chain.nativeCurrency.symbol === token.symbol
+      ).map((token) => token.symbol),
+    ])
+  ),
+});
+
+/**
+ * Tokens and destinations Nexus supports across `chains`, from the SDK's
+ * supported-chains metadata. Chains the SDK does not report accept nothing.
+ * Falls back to the registry when the SDK reports nothing usable.
+ */
+export function getNexusSupport(
+  chains: ChainInfo[],
+  source?: NexusSupportSource | null
+): NexusSupport {
+  const fallback = registrySupport(chains);
+  let reported: NexusSupportedChain[];
+  try {
+    reported = source?.getSupportedChains?.() ?? [];
+  } catch (err) {
+    console.warn("Nexus supported chains unavailable:", err);
+    reported = [];
+  }
+  if (!reported.length) return fallback;
+
+  const tokens = NEXUS_TOKENS.filter(
+    (token) => source?.isSupportedToken?.(token.symbol) ?? true
+  );
+  const chainTokens = new Map(
+    chains.map((chain) => {
+      const entry = reported.find(({ id }) => id === chain.id);
+      const accepted = (fallback.chainTokens.get(chain.id) ?? []).filter(
+        (symbol) =>
+          !!entry &&
+          tokens.some((token) => token.symbol === symbol) &&
+          (!entry.tokens ||
+            entry.tokens.some((token) => token.symbol === symbol))
+      );
+      return [chain.id, accepted] as const;
+    })
+  );
+  const available = tokens.filter((token) =>
+    Array.from(chainTokens.values()).some((symbols) =>
+      symbols.includes(token.symbol)
+    )
+  );
+  return available.length ? { tokens: available, chainTokens } : fallback;
+}
+
+/**
+ * Selector options: the tokens Nexus supports on the active network, each
+ * with its unified balance and the decimals Nexus reports.
+ */
+export function getTokenOptions(
+  balances: AssetBalance[],
+  support: NexusSupport
+): TokenOption[] {
+  return support.tokens.map((token) => {
+    const asset = balances.find(({ symbol }) => symbol === token.symbol);
+    return {
+      ...token,
+      decimals: asset?.decimals ?? token.decimals,
+      balance: asset?.balance ?? "0",
+    };
+  });
+}
+
+export const isTokenSupportedOnChain = (
+  token: NexusTokenInfo,
+  chain: ChainInfo,
+  support: NexusSupport
+) => !!support.chainTokens.get(chain.id)?.includes(token.symbol);
+
+/**
+ * Converts a decimal string to base units, dropping digits beyond the
+ * token's precision. Returns null for anything that is not a number.
+ */
+export function toTokenUnits(value: string, decimals: number): bigint | null {
+  const trimmed = value.trim();
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === "" || trimmed === ".") {
+    return null;
+  }
+  const [whole, fraction = ""] = trimmed.split(".");
+  return parseUnits(
+    `${whole || "0"}.${fraction.slice(0, decimals) || "0"}`,
+    decimals
+  );
+}
+
+/**
+ * `value` as an exact decimal string at the token's precision, for the SDK
+ * calls, so amounts never pass through a float.
+ */
+export function toTokenAmount(value: string, decimals: number): string | null {
+  const units = toTokenUnits(value, decimals);
+  return units === null ? null : formatUnits(units, decimals);
+}
+
+/** Whether a decimal balance string is above zero. */
+export const hasTokenBalance = (balance: string, decimals: number) =>
+  (toTokenUnits(balance, decimals) ?? BigInt(0)) > BigInt(0);
+
+/** Why `amount` cannot be sent, or null when it is a valid amount. */
+export function validateTokenAmount(amount: string, token: TokenOption) {
+  if (!amount) return null;
+  const [, fraction = ""] = amount.trim().split(".");
+  if (fraction.length > token.decimals) {
+    return `${token.symbol} supports at most ${token.decimals} decimals`;
+  }
+  const units = toTokenUnits(amount, token.decimals);
+  if (units === null || units <= BigInt(0)) {
+    return "Enter an amount greater than zero";
+  }
+  if (units > (toTokenUnits(token.balance, token.decimals) ?? BigInt(0))) {
+    return `Amount exceeds your ${token.symbol} balance`;
+  }
+  return null;
+}
+
+// Smallest amount the number input steps by
+export const getAmountStep = (decimals: number) => 10 ** -decimals;
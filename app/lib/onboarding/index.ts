@@ -0,0 +1,2 @@
+export * from "./steps";
+export * from "./storage";
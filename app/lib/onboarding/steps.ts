@@ -0,0 +1,107 @@
+import {
+  isAddressEqual,
+  type Address,
+  type Chain,
+  type Hash,
+  type PublicClient,
+  type Transport,
+} from "viem";
+import {
+  erc20Abi,
+  type HaloPaymentClient,
+  type HaloPaymentDeployment,
+} from "../halo-payment";
+
+export type OnboardingStep =
+  | "scan"
+  | "slot"
+  | "register"
+  | "allowance"
+  | "fund"
+  | "testPayment";
+
+export const ONBOARDING_STEPS: { step: OnboardingStep; title: string }[] = [
+  { step: "scan", title: "Scan your tag" },
+  { step: "slot", title: "Choose a key slot" },
+  { step: "register", title: "Register the tag" },
+  { step: "allowance", title: "Set a spending allowance" },
+  { step: "fund", title: "Fund your wallet" },
+  { step: "testPayment", title: "Make a test payment" },
+];
+
+// The test payment goes from the wallet back to itself
+export const TEST_PAYMENT_AMOUNT = BigInt(10_000); // 0.01 USDC
+
+// What the wizard remembers between visits; everything else is read on-chain
+export interface OnboardingProgress {
+  etherAddresses?: { [keyNo: string]: Address };
+  keyNo?: string;
+  testPaymentHash?: Hash;
+}
+
+export interface OnboardingChainState {
+  // Tag the wallet has authorized, on any tag
+  authorizedHalo: Address | null;
+  // Current owner of the selected slot, may be another wallet
+  slotPayer: Address | null;
+  allowance: bigint;
+  usdcBalance: bigint;
+}
+
+export async function readOnboardingChainState({
+  haloPayment,
+  publicClient,
+  deployment,
+  wallet,
+  haloAddress,
+}: {
+  haloPayment: HaloPaymentClient;
+  publicClient: PublicClient<Transport, Chain>;
+  deployment: HaloPaymentDeployment;
+  wallet: Address;
+  haloAddress?: Address;
+}): Promise<OnboardingChainState> {
+  const [authorizedHalo, slotPayer, allowance, usdcBalance] =
+    await Promise.all([
+      haloPayment.getAuthorizedHaloAddress(wallet),
+      haloAddress ? haloPayment.getPayerFromHaloAddress(haloAddress) : null,
+      haloPayment.getAllowance(wallet, deployment.usdc),
+      publicClient.readContract({
+        address: deployment.usdc,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [wallet],
+      }),
+    ]);
+  return { authorizedHalo, slotPayer, allowance, usdcBalance };
+}
+
+export const getSelectedHaloAddress = (progress: OnboardingProgress) =>
+  progress.keyNo ? progress.etherAddresses?.[progress.keyNo] : undefined;
+
+/** Steps already satisfied by the saved progress and the chain state. */
+export function getCompletedSteps(
+  progress: OnboardingProgress,
+  chain: OnboardingChainState | null
+): Set<OnboardingStep> {
+  const done = new Set<OnboardingStep>();
+  const haloAddress = getSelectedHaloAddress(progress);
+  if (progress.etherAddresses) done.add("scan");
+  if (haloAddress) done.add("slot");
+  if (!chain) return done;
+  if (
+    haloAddress &&
+    chain.authorizedHalo &&
+    isAddressEqual(chain.authorizedHalo, haloAddress)
+  ) {
+    done.add("register");
+  }
+  if (chain.allowance >= TEST_PAYMENT_AMOUNT) done.add("allowance");
+  if (chain.usdcBalance >= TEST_PAYMENT_AMOUNT) done.add("fund");
+  if (progress.testPaymentHash) done.add("testPayment");
+  return done;
+}
+
+// First step that still needs doing, null once onboarding is complete
+export const getNextStep = (done: Set<OnboardingStep>) =>
+  ONBOARDING_STEPS.find(({ step }) => !done.has(step))?.step ?? null;
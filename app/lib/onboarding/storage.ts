@@ -0,0 +1,32 @@
+import type { Address } from "viem";
+import type { OnboardingProgress } from "./steps";
+
+// Progress is kept per chain and wallet so onboarding resumes after a reload
+const storageKey = (chainId: number, wallet: Address) =>
+  `halo-onboarding:${chainId}:${wallet.toLowerCase()}`;
+
+export function loadOnboardingProgress(
+  chainId: number,
+  wallet: Address
+): OnboardingProgress {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(
+      window.localStorage.getItem(storageKey(chainId, wallet)) || "{}"
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function saveOnboardingProgress(
+  chainId: number,
+  wallet: Address,
+  progress: OnboardingProgress
+) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(
+    storageKey(chainId, wallet),
+    JSON.stringify(progress)
+  );
+}
@@ -0,0 +1,79 @@
+import { formatUnits, parseUnits } from "viem";
+
+// USDC has 6 decimals on every chain the scanner supports
+export const USDC_DECIMALS = 6;
+
+export interface CartLineItem {
+  id: string;
+  name: string;
+  // Unit price in USDC base units
+  unitPrice: bigint;
+  quantity: number;
+}
+
+export interface CartTotals {
+  subtotal: bigint;
+  tax: bigint;
+  tip: bigint;
+  total: bigint;
+}
+
+const BPS_DENOMINATOR = BigInt(10000);
+
+// Percentages are kept in basis points so all maths stays in integers
+export const percentToBps = (percent: string): bigint => {
+  const value = parseFloat(percent);
+  if (!Number.isFinite(value) || value < 0) return BigInt(0);
+  return BigInt(Math.round(value * 100));
+};
+
+// Rounds half up to the nearest base unit
+const applyBps = (amount: bigint, bps: bigint) =>
+  (amount * bps + BPS_DENOMINATOR / BigInt(2)) / BPS_DENOMINATOR;
+
+/**
+ * Parses a user-entered USDC amount. Returns null for anything that is not a
+ * positive number with at most 6 decimals.
+ */
+export function parseUsdcAmount(value: string): bigint | null {
+  const trimmed = value.trim();
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === "" || trimmed === ".") {
+    return null;
+  }
+  const [, fraction = ""] = trimmed.split(".");
+  if (fraction.length > USDC_DECIMALS) return null;
+  const amount = parseUnits(trimmed, USDC_DECIMALS);
+  return amount > BigInt(0) ? amount : null;
+}
+
+export const formatUsdc = (amount: bigint) =>
+  Number(formatUnits(amount, USDC_DECIMALS)).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: USDC_DECIMALS,
+  });
+
+export const lineItemTotal = (item: CartLineItem) =>
+  item.unitPrice * BigInt(item.quantity);
+
+/**
+ * Computes the cart totals. Tax and percentage tips are applied to the
+ * subtotal; a fixed tip is added as-is.
+ */
+export function computeCartTotals(
+  items: CartLineItem[],
+  taxBps: bigint,
+  tip: { bps: bigint } | { amount: bigint }
+): CartTotals {
+  const subtotal = items.reduce(
+    (sum, item) => sum + lineItemTotal(item),
+    BigInt(0)
+  );
+  const tax = applyBps(subtotal, taxBps);
+  const tipAmount = "bps" in tip ? applyBps(subtotal, tip.bps) : tip.amount;
+  return {
+    subtotal,
+    tax,
+    tip: tipAmount,
+    total: subtotal + tax + tipAmount,
+  };
+}
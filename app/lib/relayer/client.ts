@@ -0,0 +1,58 @@
+import type { Address, Hash, Hex } from "viem";
+import { NonceCollisionError } from "../halo-payment/nonce";
+import type {
+  RelayerStatus,
+  RelayPaymentRequest,
+  RelayPaymentResponse,
+} from "./types";
+
+const RELAY_ENDPOINT = "/api/relay";
+
+export interface RelayPaymentArgs {
+  chainId: number;
+  haloAddress: Address;
+  merchant: Address;
+  amount: bigint;
+  nonce: bigint;
+  signature: Hex;
+}
+
+export async function fetchRelayerStatus(
+  chainId: number
+): Promise<RelayerStatus> {
+  try {
+    const response = await fetch(`${RELAY_ENDPOINT}?chainId=${chainId}`);
+    return response.ok ? await response.json() : { enabled: false };
+  } catch {
+    return { enabled: false };
+  }
+}
+
+/**
+ * Hands a signed payment to the relayer, which pays the gas. Lost nonce races
+ * surface as NonceCollisionError so callers can retry like a self-submit.
+ */
+export async function submitRelayedPayment({
+  amount,
+  nonce,
+  ...payment
+}: RelayPaymentArgs): Promise<Hash> {
+  const body: RelayPaymentRequest = {
+    ...payment,
+    amount: amount.toString(),
+    nonce: nonce.toString(),
+  };
+  const response = await fetch(RELAY_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const result: RelayPaymentResponse = await response.json();
+  if ("hash" in result) {
+    return result.hash;
+  }
+  if (result.errorName === "NonceAlreadyUsed") {
+    throw new NonceCollisionError(nonce);
+  }
+  throw new Error(result.error || `Relayer responded with ${response.status}`);
+}
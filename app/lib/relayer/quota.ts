@@ -0,0 +1,100 @@
+import type { Address } from "viem";
+
+export interface MerchantQuotaOptions {
+  // Relayed payments per merchant within one window
+  maxPayments: number;
+  // Total USDC (6 decimals) per merchant within one window
+  maxAmount: bigint;
+  windowMs: number;
+}
+
+interface QuotaEntry {
+  time: number;
+  amount: bigint;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Per-merchant relaying budget. A payment reserves its share up front so
+ * concurrent requests cannot overshoot the quota; call the returned release
+ * function when the payment was not sent after all. Merchants without usage
+ * in the current window are dropped.
+ */
+export function createMerchantQuota({
+  maxPayments,
+  maxAmount,
+  windowMs,
+}: MerchantQuotaOptions) {
+  const usage = new Map<string, QuotaEntry[]>();
+  let lastSweep = 0;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    usage.forEach((entries, key) => {
+      if (!entries.some(({ time }) => now - time < windowMs)) {
+        usage.delete(key);
+      }
+    });
+  };
+
+  const getEntries = (merchant: Address, now: number) => {
+    sweep(now);
+    const key = merchant.toLowerCase();
+    const entries = (usage.get(key) ?? []).filter(
+      ({ time }) => now - time < windowMs
+    );
+    // Reads of idle merchants leave nothing behind, reserve adds the key
+    if (entries.length) usage.set(key, entries);
+    else usage.delete(key);
+    return entries;
+  };
+
+  return {
+    usage(merchant: Address, now = Date.now()) {
+      const entries = getEntries(merchant, now);
+      return {
+        payments: entries.length,
+        amount: entries.reduce((sum, { amount }) => sum + amount, BigInt(0)),
+      };
+    },
+
+    // Number of merchants held, for monitoring
+    get size() {
+      return usage.size;
+    },
+
+    reserve(merchant: Address, amount: bigint, now = Date.now()) {
+      const entries = getEntries(merchant, now);
+      if (entries.length >= maxPayments) {
+        throw new QuotaExceededError(
+          `This merchant reached the limit of ${maxPayments} relayed payments. Try again later or submit the payment yourself.`
+        );
+      }
+      const used = entries.reduce((sum, entry) => sum + entry.amount, BigInt(0));
+      if (used + amount > maxAmount) {
+        throw new QuotaExceededError(
+          "This payment exceeds the merchant's relayed volume limit. Try again later or submit the payment yourself."
+        );
+      }
+      const entry = { time: now, amount };
+      entries.push(entry);
+      usage.set(merchant.toLowerCase(), entries);
+      return () => {
+        const key = merchant.toLowerCase();
+        const current = usage.get(key) ?? [];
+        const index = current.indexOf(entry);
+        if (index !== -1) current.splice(index, 1);
+        if (!current.length) usage.delete(key);
+      };
+    },
+  };
+}
+
+export type MerchantQuota = ReturnType<typeof createMerchantQuota>;
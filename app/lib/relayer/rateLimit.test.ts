@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { createMerchantQuota } from "./quota";
+import {
+  createRateLimiter,
+  getClientIp,
+  parseTrustedProxies,
+  UNKNOWN_CLIENT,
+} from "./rateLimit";
+
+const MERCHANT = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+const forwarded = (value: string) => new Headers({ "x-forwarded-for": value });
+
+describe("getClientIp", () => {
+  test("ignores X-Forwarded-For without a trusted proxy", () => {
+    expect(getClientIp(forwarded("198.51.100.1"), 0)).toBe(UNKNOWN_CLIENT);
+  });
+
+  test("counts trusted proxies from the right", () => {
+    const headers = forwarded("203.0.113.7, 198.51.100.1, 10.0.0.2");
+    expect(getClientIp(headers, 1)).toBe("10.0.0.2");
+    expect(getClientIp(headers, 2)).toBe("198.51.100.1");
+  });
+
+  test("falls back when the header is shorter than the proxy chain", () => {
+    expect(getClientIp(forwarded("198.51.100.1"), 2)).toBe(UNKNOWN_CLIENT);
+    expect(getClientIp(new Headers(), 1)).toBe(UNKNOWN_CLIENT);
+  });
+});
+
+describe("parseTrustedProxies", () => {
+  test("requires a positive proxy count", () => {
+    expect(parseTrustedProxies("2")).toBe(2);
+    for (const value of [undefined, "", "0", "-1", "1.5", "all"]) {
+      expect(parseTrustedProxies(value)).toBeNull();
+    }
+  });
+});
+
+describe("createRateLimiter", () => {
+  test("limits each key within the window", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+    expect(limiter.check("a", 0).allowed).toBe(true);
+    expect(limiter.check("a", 100).allowed).toBe(true);
+    expect(limiter.check("a", 200)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 800,
+    });
+    expect(limiter.check("b", 200).allowed).toBe(true);
+    expect(limiter.check("a", 1000).allowed).toBe(true);
+  });
+
+  test("drops keys once their window has passed", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+    for (let i = 0; i < 50; i++) limiter.check(`client-${i}`, i);
+    expect(limiter.size).toBe(50);
+    limiter.check("late", 5000);
+    expect(limiter.size).toBe(1);
+  });
+});
+
+describe("createMerchantQuota", () => {
+  test("drops merchants without usage in the window", () => {
+    const quota = createMerchantQuota({
+      maxPayments: 5,
+      maxAmount: BigInt(100),
+      windowMs: 1000,
+    });
+    const release = quota.reserve(MERCHANT, BigInt(10), 0);
+    expect(quota.size).toBe(1);
+    release();
+    expect(quota.size).toBe(0);
+
+    quota.reserve(MERCHANT, BigInt(10), 0);
+    expect(quota.usage(MERCHANT, 2000)).toEqual({
+      payments: 0,
+      amount: BigInt(0),
+    });
+    expect(quota.size).toBe(0);
+  });
+});
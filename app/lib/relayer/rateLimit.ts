@@ -0,0 +1,86 @@
+export interface RateLimiterOptions {
+  // Requests allowed per key within one window
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Milliseconds until the oldest request leaves the window
+  retryAfterMs: number;
+}
+
+// Key shared by every client whose address cannot be trusted
+export const UNKNOWN_CLIENT = "unknown";
+
+/**
+ * Client address for rate limiting. `X-Forwarded-For` is client controlled
+ * up to the entry our own proxies appended, so with `trustedProxies` proxies
+ * in front of the app the client is that many entries from the right. With
+ * no trusted proxy the header is ignored and all clients share one limit.
+ */
+export function getClientIp(headers: Headers, trustedProxies: number) {
+  if (trustedProxies < 1) return UNKNOWN_CLIENT;
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - trustedProxies] ?? UNKNOWN_CLIENT;
+}
+
+/**
+ * Reads the trusted proxy count, or null when it is missing or not a
+ * positive integer. Callers should refuse to serve without one rather than
+ * put every client in the same bucket.
+ */
+export function parseTrustedProxies(value: string | undefined) {
+  const proxies = Number(value);
+  return Number.isInteger(proxies) && proxies > 0 ? proxies : null;
+}
+
+/**
+ * Sliding-window rate limiter kept in memory. Limits are per server
+ * instance, which is enough to stop a single client hammering the relayer.
+ * Keys whose window has passed are dropped, so memory stays bounded by the
+ * clients seen within one window.
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimiterOptions) {
+  const hits = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    hits.forEach((times, key) => {
+      if (!times.some((time) => now - time < windowMs)) hits.delete(key);
+    });
+  };
+
+  return {
+    check(key: string, now = Date.now()): RateLimitResult {
+      sweep(now);
+      const recent = (hits.get(key) ?? []).filter(
+        (time) => now - time < windowMs
+      );
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterMs: windowMs - (now - recent[0]),
+        };
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+    },
+
+    // Number of keys held, for monitoring
+    get size() {
+      return hits.size;
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
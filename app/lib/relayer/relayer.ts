@@ -0,0 +1,226 @@
+import {
+  createWalletClient,
+  fallback,
+  http,
+  isAddress,
+  isHex,
+  type Hash,
+  type Hex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  describeHaloPaymentError,
+  getHaloPaymentErrorName,
+  HALO_PAYMENT_DEPLOYMENTS,
+} from "../halo-payment";
+import { parseUsdcAmount } from "../pos/cart";
+import { createMerchantQuota, QuotaExceededError } from "./quota";
+import { createRateLimiter, parseTrustedProxies } from "./rateLimit";
+import type { RelayerStatus, RelayPaymentRequest } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Server-only settings, never exposed to the browser
+const env = {
+  privateKey: process.env.RELAYER_PRIVATE_KEY,
+  rateLimitPerMinute: process.env.RELAYER_RATE_LIMIT_PER_MINUTE,
+  // Proxies in front of the app that append to X-Forwarded-For, e.g. 1 on
+  // Vercel or behind a single load balancer
+  trustedProxies: process.env.RELAYER_TRUSTED_PROXIES,
+  merchantDailyPayments: process.env.RELAYER_MERCHANT_DAILY_PAYMENTS,
+  merchantDailyUsdc: process.env.RELAYER_MERCHANT_DAILY_USDC,
+};
+
+export class RelayError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errorName?: string
+  ) {
+    super(message);
+    this.name = "RelayError";
+  }
+}
+
+export const RELAYER_TRUSTED_PROXIES = parseTrustedProxies(env.trustedProxies);
+
+// Without a trusted proxy every client would share one rate limit, letting
+// a single caller starve every merchant, so the relayer stays off
+if (env.privateKey && RELAYER_TRUSTED_PROXIES === null) {
+  console.error(
+    "RELAYER_TRUSTED_PROXIES must be set to a positive integer, the payment relayer is disabled"
+  );
+}
+
+export const relayRateLimiter = createRateLimiter({
+  limit: Number(env.rateLimitPerMinute) || 10,
+  windowMs: 60 * 1000,
+});
+
+export const merchantQuota = createMerchantQuota({
+  maxPayments: Number(env.merchantDailyPayments) || 100,
+  maxAmount: parseUsdcAmount(env.merchantDailyUsdc ?? "") ?? BigInt(1000e6),
+  windowMs: DAY_MS,
+});
+
+const getRelayerAccount = () =>
+  RELAYER_TRUSTED_PROXIES !== null && env.privateKey && isHex(env.privateKey)
+    ? privateKeyToAccount(env.privateKey)
+    : null;
+
+function getRelayerClient(chainId: number) {
+  const deployment = HALO_PAYMENT_DEPLOYMENTS[chainId];
+  if (!deployment) {
+    throw new RelayError(`HaloPayment is not deployed on chain ${chainId}`, 400);
+  }
+  const account = getRelayerAccount();
+  if (!account) {
+    throw new RelayError("The payment relayer is not configured", 503);
+  }
+  const walletClient = createWalletClient({
+    account,
+    chain: deployment.chain,
+    transport: fallback(deployment.rpcUrls.map((url) => http(url))),
+  });
+  const publicClient = createDeploymentPublicClient(deployment);
+  return {
+    account,
+    publicClient,
+    client: createHaloPaymentClient({
+      address: deployment.haloPayment,
+      publicClient,
+      walletClient,
+    }),
+  };
+}
+
+export async function getRelayerStatus(chainId: number): Promise<RelayerStatus> {
+  const account = getRelayerAccount();
+  if (!account || !HALO_PAYMENT_DEPLOYMENTS[chainId]) {
+    return { enabled: false };
+  }
+  const { publicClient } = getRelayerClient(chainId);
+  const balance = await publicClient.getBalance({ address: account.address });
+  return {
+    enabled: true,
+    relayer: account.address,
+    balance: balance.toString(),
+  };
+}
+
+const parseUint = (value: unknown, field: string) => {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new RelayError(`${field} must be a decimal string`, 400);
+  }
+  return BigInt(value);
+};
+
+/** Checks the shape of an untrusted request body. */
+export function parseRelayPaymentRequest(body: unknown) {
+  const request = (body ?? {}) as Partial<RelayPaymentRequest>;
+  if (!Number.isInteger(request.chainId)) {
+    throw new RelayError("chainId must be a number", 400);
+  }
+  if (!request.haloAddress || !isAddress(request.haloAddress)) {
+    throw new RelayError("haloAddress must be an address", 400);
+  }
+  if (!request.merchant || !isAddress(request.merchant)) {
+    throw new RelayError("merchant must be an address", 400);
+  }
+  if (!request.signature || !isHex(request.signature)) {
+    throw new RelayError("signature must be hex encoded", 400);
+  }
+  const amount = parseUint(request.amount, "amount");
+  if (amount <= BigInt(0)) {
+    throw new RelayError("amount must be greater than zero", 400);
+  }
+  return {
+    chainId: request.chainId as number,
+    haloAddress: request.haloAddress,
+    merchant: request.merchant,
+    amount,
+    nonce: parseUint(request.nonce, "nonce"),
+    signature: request.signature as Hex,
+  };
+}
+
+/**
+ * Validates a signed HaLo payment against the contract views, dry-runs it
+ * and submits it from the relayer key, so the merchant needs no gas.
+ */
+export async function relayPayment(
+  payment: ReturnType<typeof parseRelayPaymentRequest>
+): Promise<Hash> {
+  const { chainId, haloAddress, merchant, amount, nonce, signature } = payment;
+  const { account, client } = getRelayerClient(chainId);
+
+  const payer = await client.getPayerFromHaloAddress(haloAddress);
+  if (!payer) {
+    throw new RelayError(
+      "This HaLo tag is not registered for payments.",
+      400,
+      "HaloAddressNotAuthorized"
+    );
+  }
+  const [nonceUsed, allowance, { valid }] = await Promise.all([
+    client.isNonceUsed(payer, nonce),
+    client.getAllowance(payer),
+    client.verifyPaymentSignature(
+      { payer, merchant, amount, nonce },
+      signature,
+      haloAddress
+    ),
+  ]);
+  if (nonceUsed) {
+    throw new RelayError(
+      `Payment nonce ${nonce} has already been used`,
+      409,
+      "NonceAlreadyUsed"
+    );
+  }
+  if (!valid) {
+    throw new RelayError(
+      "The signature was not made by this HaLo tag for this payment.",
+      400,
+      "InvalidSignature"
+    );
+  }
+  if (allowance < amount) {
+    throw new RelayError(
+      "Insufficient USDC allowance for payment.",
+      400,
+      "InsufficientAllowance"
+    );
+  }
+
+  let release: () => void;
+  try {
+    release = merchantQuota.reserve(merchant, amount);
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      throw new RelayError(err.message, 429);
+    }
+    throw err;
+  }
+
+  try {
+    await client.simulateExecutePaymentFromHalo(
+      { haloAddress, merchant, amount, nonce, signature },
+      { account }
+    );
+    return await client.executePaymentFromHalo(
+      { haloAddress, merchant, amount, nonce, signature },
+      { account }
+    );
+  } catch (err) {
+    release();
+    const errorName = getHaloPaymentErrorName(err);
+    throw new RelayError(
+      describeHaloPaymentError(err, "Relaying the payment failed"),
+      errorName === "NonceAlreadyUsed" ? 409 : errorName ? 400 : 502,
+      errorName
+    );
+  }
+}
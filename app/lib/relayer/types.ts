@@ -0,0 +1,25 @@
+import type { Address, Hash, Hex } from "viem";
+
+// Body of POST /api/relay. bigints travel as decimal strings.
+export interface RelayPaymentRequest {
+  chainId: number;
+  haloAddress: Address;
+  merchant: Address;
+  amount: string;
+  nonce: string;
+  signature: Hex;
+}
+
+export type RelayPaymentResponse =
+  | { hash: Hash }
+  | { error: string; errorName?: string };
+
+// Response of GET /api/relay?chainId=...
+export interface RelayerStatus {
+  enabled: boolean;
+  relayer?: Address;
+  balance?: string;
+}
+
+// "relay" lets the server pay the gas, "self" sends from the merchant wallet
+export type SubmitMode = "relay" | "self";
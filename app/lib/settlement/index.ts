@@ -0,0 +1,3 @@
+export * from "./payerCache";
+export * from "./queue";
+export * from "./settle";
@@ -0,0 +1,65 @@
+import type { Address } from "viem";
+import type { HaloSlotRegistration } from "../halo-payment";
+
+// Last known payer of every HaLo address seen online, per chain
+const PAYER_CACHE_STORAGE_KEY = "halo-payer-cache";
+
+type PayerCache = { [chainAndHaloAddress: string]: Address };
+
+const cacheKey = (chainId: number, haloAddress: Address) =>
+  `${chainId}:${haloAddress.toLowerCase()}`;
+
+function readCache(): PayerCache {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(
+      window.localStorage.getItem(PAYER_CACHE_STORAGE_KEY) || "{}"
+    );
+  } catch {
+    return {};
+  }
+}
+
+const writeCache = (cache: PayerCache) => {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(PAYER_CACHE_STORAGE_KEY, JSON.stringify(cache));
+};
+
+/** Records an on-chain lookup; `null` forgets a tag that was revoked. */
+export function rememberPayer(
+  chainId: number,
+  haloAddress: Address,
+  payer: Address | null
+) {
+  const cache = readCache();
+  if (payer) {
+    cache[cacheKey(chainId, haloAddress)] = payer;
+  } else {
+    delete cache[cacheKey(chainId, haloAddress)];
+  }
+  writeCache(cache);
+}
+
+export const getCachedPayer = (chainId: number, haloAddress: Address) =>
+  readCache()[cacheKey(chainId, haloAddress)] ?? null;
+
+// Offline counterpart of `findRegisteredSlot`, answered from the cache
+export function findCachedSlot(
+  chainId: number,
+  etherAddresses: { [keyNo: string]: Address }
+) {
+  const cache = readCache();
+  return Object.entries(etherAddresses)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(
+      ([keyNo, haloAddress]): HaloSlotRegistration => ({
+        keyNo,
+        haloAddress,
+        payer: cache[cacheKey(chainId, haloAddress)] ?? null,
+      })
+    )
+    .find(
+      (slot): slot is HaloSlotRegistration & { payer: Address } =>
+        slot.payer !== null
+    );
+}
@@ -0,0 +1,127 @@
+import type { Address, Hash, Hex } from "viem";
+
+const DB_NAME = "halo-settlement";
+const DB_VERSION = 1;
+const STORE = "payments";
+
+/**
+ * pending: captured, waiting to be submitted
+ * settling: submission in flight
+ * settled: mined, `hash` is set
+ * failed: rejected; `retryable` payments go back to pending on the next run
+ */
+export type QueuedPaymentStatus = "pending" | "settling" | "settled" | "failed";
+
+// A payment signed by a HaLo tag while offline. bigints are kept as strings.
+export interface QueuedPayment {
+  id: string;
+  chainId: number;
+  haloAddress: Address;
+  payer: Address;
+  merchant: Address;
+  amount: string;
+  nonce: string;
+  signature: Hex;
+  createdAt: number;
+  status: QueuedPaymentStatus;
+  attempts: number;
+  hash?: Hash;
+  error?: string;
+  retryable?: boolean;
+}
+
+export type NewQueuedPayment = Pick<
+  QueuedPayment,
+  "chainId" | "haloAddress" | "payer" | "merchant" | "signature"
+> & { amount: bigint; nonce: bigint };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Notifies open SettlementQueue views in this tab
+const QUEUE_CHANGED_EVENT = "halo-settlement-changed";
+
+const notifyChanged = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+  }
+};
+
+export function onQueueChanged(listener: () => void) {
+  window.addEventListener(QUEUE_CHANGED_EVENT, listener);
+  return () => window.removeEventListener(QUEUE_CHANGED_EVENT, listener);
+}
+
+export async function enqueuePayment({
+  amount,
+  nonce,
+  ...payment
+}: NewQueuedPayment) {
+  const queued: QueuedPayment = {
+    ...payment,
+    id: crypto.randomUUID(),
+    amount: amount.toString(),
+    nonce: nonce.toString(),
+    createdAt: Date.now(),
+    status: "pending",
+    attempts: 0,
+  };
+  await run("readwrite", (store) => store.add(queued));
+  notifyChanged();
+  return queued;
+}
+
+// Oldest first, the order they are settled in
+export const listQueuedPayments = async () =>
+  (await run<QueuedPayment[]>("readonly", (store) => store.getAll())).sort(
+    (a, b) => a.createdAt - b.createdAt
+  );
+
+export async function updateQueuedPayment(
+  id: string,
+  changes: Partial<Omit<QueuedPayment, "id">>
+) {
+  const current = await run<QueuedPayment | undefined>("readonly", (store) =>
+    store.get(id)
+  );
+  if (!current) return;
+  await run("readwrite", (store) => store.put({ ...current, ...changes }));
+  notifyChanged();
+}
+
+export async function removeQueuedPayment(id: string) {
+  await run("readwrite", (store) => store.delete(id));
+  notifyChanged();
+}
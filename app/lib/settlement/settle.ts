@@ -0,0 +1,181 @@
+import { isAddressEqual, type Hash } from "viem";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  describeHaloPaymentError,
+  getHaloPaymentErrorName,
+  HALO_PAYMENT_DEPLOYMENTS,
+  type ExecutePaymentFromHaloArgs,
+  type HaloPaymentClient,
+} from "../halo-payment";
+import {
+  listQueuedPayments,
+  updateQueuedPayment,
+  type QueuedPayment,
+} from "./queue";
+
+// Reverts the customer can fix (raise the allowance, top up USDC)
+const RETRYABLE_ERRORS = ["InsufficientAllowance", "TransferFailed"];
+
+// Slack for the capturing device's clock when searching for a sent payment
+const CLOCK_SKEW_SECONDS = 60 * 60;
+
+export type SubmitQueuedPayment = (
+  payment: ExecutePaymentFromHaloArgs,
+  queued: QueuedPayment
+) => Promise<Hash>;
+
+export interface SettlementSummary {
+  settled: number;
+  failed: number;
+  pending: number;
+}
+
+const toPaymentArgs = (queued: QueuedPayment): ExecutePaymentFromHaloArgs => ({
+  haloAddress: queued.haloAddress,
+  merchant: queued.merchant,
+  amount: BigInt(queued.amount),
+  nonce: BigInt(queued.nonce),
+  signature: queued.signature,
+});
+
+async function settleOne(
+  queued: QueuedPayment,
+  client: HaloPaymentClient,
+  submit: SubmitQueuedPayment
+): Promise<QueuedPayment["status"]> {
+  const fail = async (error: string, retryable: boolean) => {
+    await updateQueuedPayment(queued.id, { status: "failed", error, retryable });
+    return "failed" as const;
+  };
+  const confirm = async (hash: Hash) => {
+    const receipt = await client.waitForTransaction(hash);
+    if (receipt.status !== "success") {
+      // Forget the hash so a retry submits a fresh transaction
+      await updateQueuedPayment(queued.id, { hash: undefined });
+      return fail("The settlement transaction reverted.", true);
+    }
+    await updateQueuedPayment(queued.id, {
+      status: "settled",
+      hash,
+      error: undefined,
+      retryable: undefined,
+    });
+    return "settled" as const;
+  };
+
+  const payment = toPaymentArgs(queued);
+  await updateQueuedPayment(queued.id, {
+    status: "settling",
+    attempts: queued.attempts + 1,
+    error: undefined,
+  });
+
+  try {
+    // A previous run sent the transaction but never saw it mined
+    if (queued.hash) {
+      return await confirm(queued.hash);
+    }
+
+    const [payer, nonceUsed, allowance] = await Promise.all([
+      client.getPayerFromHaloAddress(payment.haloAddress),
+      client.isNonceUsed(queued.payer, payment.nonce),
+      client.getAllowance(queued.payer),
+    ]);
+    if (nonceUsed) {
+      // An earlier run may have sent this payment without saving the hash
+      const executed = await client.findPaymentByNonce(
+        queued.payer,
+        payment.nonce,
+        { since: Math.floor(queued.createdAt / 1000) - CLOCK_SKEW_SECONDS }
+      );
+      if (
+        executed &&
+        isAddressEqual(executed.args.merchant, queued.merchant) &&
+        executed.args.amount === payment.amount
+      ) {
+        return await confirm(executed.transactionHash);
+      }
+      return fail(
+        "This payment's nonce was already used on-chain. Collect this payment again with a new tap.",
+        false
+      );
+    }
+    if (!payer || !isAddressEqual(payer, queued.payer)) {
+      return fail(
+        "The tag was revoked or re-registered since the payment was captured. Collect this payment again.",
+        false
+      );
+    }
+    if (allowance < payment.amount) {
+      return fail(
+        "The customer's USDC allowance is lower than this amount. Retry once they have raised it.",
+        true
+      );
+    }
+
+    await client.simulateExecutePaymentFromHalo(payment);
+    const hash = await submit(payment, queued);
+    await updateQueuedPayment(queued.id, { hash });
+    return await confirm(hash);
+  } catch (err) {
+    const errorName = getHaloPaymentErrorName(err);
+    if (errorName) {
+      return fail(
+        describeHaloPaymentError(err, "Settlement failed"),
+        RETRYABLE_ERRORS.includes(errorName)
+      );
+    }
+    // Most likely still offline or the RPC is down, keep it queued
+    await updateQueuedPayment(queued.id, {
+      status: "pending",
+      error: describeHaloPaymentError(err, "Settlement failed"),
+    });
+    return "pending";
+  }
+}
+
+/**
+ * Submits every pending payment in capture order, plus failed ones that can
+ * be retried. Each item's outcome is written back to the queue as it lands.
+ */
+export async function settleQueuedPayments(
+  submit: SubmitQueuedPayment
+): Promise<SettlementSummary> {
+  const summary: SettlementSummary = { settled: 0, failed: 0, pending: 0 };
+  const clients = new Map<number, HaloPaymentClient>();
+
+  for (const queued of await listQueuedPayments()) {
+    const due =
+      queued.status === "pending" ||
+      queued.status === "settling" ||
+      (queued.status === "failed" && queued.retryable);
+    if (!due) continue;
+
+    const deployment = HALO_PAYMENT_DEPLOYMENTS[queued.chainId];
+    if (!deployment) {
+      await updateQueuedPayment(queued.id, {
+        status: "failed",
+        error: `HaloPayment is not configured for chain ${queued.chainId}`,
+        retryable: false,
+      });
+      summary.failed++;
+      continue;
+    }
+    if (!clients.has(queued.chainId)) {
+      clients.set(
+        queued.chainId,
+        createHaloPaymentClient({
+          address: deployment.haloPayment,
+          publicClient: createDeploymentPublicClient(deployment),
+        })
+      );
+    }
+
+    const status = await settleOne(queued, clients.get(queued.chainId)!, submit);
+    if (status === "settled") summary.settled++;
+    else if (status === "failed") summary.failed++;
+    else summary.pending++;
+  }
+  return summary;
+}
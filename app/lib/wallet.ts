@@ -0,0 +1,61 @@
+import type { ConnectedWallet } from "@privy-io/react-auth";
+import {
+  createWalletClient,
+  custom,
+  type Address,
+  type Chain,
+  type PublicClient,
+  type Transport,
+} from "viem";
+import {
+  createHaloPaymentClient,
+  type HaloPaymentDeployment,
+} from "./halo-payment";
+
+// Privy reports chains in CAIP-2 form, e.g. "eip155:11155111"
+export const getWalletChainId = (wallet: ConnectedWallet) =>
+  Number(wallet.chainId.split(":").pop());
+
+/**
+ * Makes sure the wallet is on `chainId` before a transaction is sent.
+ * External wallets show their own switch prompt; embedded wallets switch
+ * silently. Request a fresh provider afterwards, existing ones keep the old
+ * chain.
+ */
+export async function ensureWalletChain(
+  wallet: ConnectedWallet,
+  chainId: number
+) {
+  if (getWalletChainId(wallet) !== chainId) {
+    await wallet.switchChain(chainId);
+  }
+}
+
+export const getPrivyWallet = (wallets: ConnectedWallet[]) =>
+  wallets.find((wallet) => wallet.walletClientType === "privy");
+
+/**
+ * HaloPayment client that sends transactions from `wallet` on the
+ * deployment's chain, switching the wallet over first if needed.
+ */
+export async function createWalletHaloPaymentClient(
+  wallet: ConnectedWallet,
+  deployment: HaloPaymentDeployment,
+  publicClient: PublicClient<Transport, Chain>
+) {
+  await ensureWalletChain(wallet, deployment.chain.id);
+  const provider = await wallet.getEthereumProvider();
+  const walletClient = createWalletClient({
+    account: wallet.address as Address,
+    chain: deployment.chain,
+    transport: custom(provider),
+  });
+  return {
+    walletClient,
+    client: createHaloPaymentClient({
+      address: deployment.haloPayment,
+      publicClient,
+      walletClient,
+    }),
+  };
+}
@@ -0,0 +1,75 @@
+import { readFileSync } from "fs";
+import { getAddress, type Address } from "viem";
+import type { WebhookEndpoint } from "./types";
+
+export interface WebhookWatcherConfig {
+  // Chains to follow, all configured deployments when empty
+  chainIds: number[];
+  merchants: Address[];
+  endpoints: WebhookEndpoint[];
+  confirmations: number;
+  pollIntervalMs: number;
+  startBlock?: bigint;
+  stateFile: string;
+  // Endpoints already settled per event still behind the cursor
+  deliveriesFile: string;
+  logFile?: string;
+}
+
+const list = (value?: string) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Reads the watcher settings. `WEBHOOK_CONFIG` may point to a JSON file with
+ * the same shape (several endpoints with their own secrets and merchants);
+ * otherwise a single endpoint is built from `WEBHOOK_URL`/`WEBHOOK_SECRET`.
+ */
+export function loadWebhookWatcherConfig(
+  env: NodeJS.ProcessEnv = process.env
+): WebhookWatcherConfig {
+  const file: Partial<WebhookWatcherConfig> & { startBlock?: string } =
+    env.WEBHOOK_CONFIG ? JSON.parse(readFileSync(env.WEBHOOK_CONFIG, "utf8")) : {};
+
+  const endpoints: WebhookEndpoint[] =
+    file.endpoints ??
+    (env.WEBHOOK_URL
+      ? [{ url: env.WEBHOOK_URL, secret: env.WEBHOOK_SECRET ?? "" }]
+      : []);
+  if (!endpoints.length) {
+    throw new Error("Set WEBHOOK_URL or list endpoints in WEBHOOK_CONFIG");
+  }
+  for (const endpoint of endpoints) {
+    if (!endpoint.secret) {
+      throw new Error(`Webhook endpoint ${endpoint.url} has no secret`);
+    }
+  }
+
+  const merchants = (file.merchants ?? list(env.WEBHOOK_MERCHANTS)).map(
+    (merchant) => getAddress(merchant)
+  );
+  if (!merchants.length) {
+    throw new Error("Set WEBHOOK_MERCHANTS to the merchant addresses to watch");
+  }
+
+  const startBlock = file.startBlock ?? env.WEBHOOK_START_BLOCK;
+  return {
+    chainIds: file.chainIds ?? list(env.WEBHOOK_CHAIN_IDS).map(Number),
+    merchants,
+    endpoints,
+    confirmations:
+      file.confirmations ?? Number(env.WEBHOOK_CONFIRMATIONS ?? 2),
+    pollIntervalMs:
+      file.pollIntervalMs ?? Number(env.WEBHOOK_POLL_INTERVAL_MS ?? 12_000),
+    startBlock: startBlock ? BigInt(startBlock) : undefined,
+    stateFile:
+      file.stateFile ?? env.WEBHOOK_STATE_FILE ?? ".webhook-watcher-state.json",
+    deliveriesFile:
+      file.deliveriesFile ??
+      env.WEBHOOK_DELIVERIES_FILE ??
+      ".webhook-deliveries.json",
+    logFile: file.logFile ?? env.WEBHOOK_LOG_FILE,
+  };
+}
@@ -0,0 +1,209 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from "fs";
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from "./signature";
+import type {
+  DeliveryLogEntry,
+  PaymentWebhookPayload,
+  WebhookEndpoint,
+} from "./types";
+
+export type DeliveryLog = (entry: DeliveryLogEntry) => void;
+
+export interface DeliveryOptions {
+  maxAttempts?: number;
+  // Delay before the first retry, doubled on every further attempt
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+  log?: DeliveryLog;
+  // Stops retrying, the delivery then counts as interrupted
+  signal?: AbortSignal;
+}
+
+// Interrupted deliveries were neither acknowledged nor given up on
+export type DeliveryOutcome = "delivered" | "dead-lettered" | "interrupted";
+
+const DEFAULT_DELIVERY_OPTIONS = {
+  maxAttempts: 6,
+  baseDelayMs: 1_000,
+  maxDelayMs: 60_000,
+  timeoutMs: 10_000,
+};
+
+/** Appends every delivery attempt as a JSON line to `path`. */
+export const createFileDeliveryLog =
+  (path: string): DeliveryLog =>
+  (entry) =>
+    appendFileSync(path, `${JSON.stringify(entry)}\n`);
+
+export const consoleDeliveryLog: DeliveryLog = (entry) =>
+  console.log(
+    `[webhook] ${entry.status} ${entry.eventId} -> ${entry.url} (attempt ${entry.attempt}${
+      entry.httpStatus ? `, HTTP ${entry.httpStatus}` : ""
+    }${entry.error ? `, ${entry.error}` : ""})`
+  );
+
+// Thrown when deliveries were interrupted before they were settled
+export class WebhookDeliveryError extends Error {
+  constructor(
+    public readonly eventId: string,
+    public readonly urls: string[]
+  ) {
+    super(`Webhook ${eventId} was interrupted for ${urls.join(", ")}`);
+    this.name = "WebhookDeliveryError";
+  }
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+// Client errors other than timeouts and rate limits will not go away by retrying
+const isRetryableStatus = (status: number) =>
+  status >= 500 || status === 408 || status === 429;
+
+/**
+ * POSTs a signed payload to one endpoint, retrying with exponential backoff
+ * and jitter. A 2xx delivers it; other client errors and running out of
+ * attempts dead-letter it in the log.
+ */
+export async function deliverWebhook(
+  endpoint: WebhookEndpoint,
+  payload: PaymentWebhookPayload,
+  options: DeliveryOptions = {}
+): Promise<DeliveryOutcome> {
+  const { maxAttempts, baseDelayMs, maxDelayMs, timeoutMs } = {
+    ...DEFAULT_DELIVERY_OPTIONS,
+    ...options,
+  };
+  const log = options.log ?? consoleDeliveryLog;
+  const body = JSON.stringify(payload);
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (options.signal?.aborted) return "interrupted";
+    let httpStatus: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await fetch(endpoint.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+          "X-Halo-Event-Id": payload.id,
+        },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      httpStatus = response.status;
+      if (response.ok) {
+        log({
+          time: new Date().toISOString(),
+          eventId: payload.id,
+          url: endpoint.url,
+          attempt,
+          status: "delivered",
+          httpStatus,
+        });
+        return "delivered";
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const retry =
+      attempt < maxAttempts &&
+      (httpStatus === undefined || isRetryableStatus(httpStatus));
+    log({
+      time: new Date().toISOString(),
+      eventId: payload.id,
+      url: endpoint.url,
+      attempt,
+      status: retry ? "retrying" : "dead-lettered",
+      httpStatus,
+      error,
+      payload: retry ? undefined : payload,
+    });
+    if (!retry) return "dead-lettered";
+
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    await sleep(delay / 2 + Math.random() * (delay / 2), options.signal);
+  }
+  return "dead-lettered";
+}
+
+// Endpoints each event is settled with, delivered or dead-lettered, so a
+// retried event only goes to the endpoints still waiting for it
+export interface DeliveryTracker {
+  isSettled(eventId: string, url: string): boolean;
+  settle(eventId: string, url: string): void;
+  // Drops an event once every endpoint is settled
+  forget(eventId: string): void;
+}
+
+export function createFileDeliveryTracker(path: string): DeliveryTracker {
+  const settled: Record<string, string[]> = existsSync(path)
+    ? JSON.parse(readFileSync(path, "utf8"))
+    : {};
+  const save = () => writeFileSync(path, JSON.stringify(settled, null, 2));
+  return {
+    isSettled: (eventId, url) => !!settled[eventId]?.includes(url),
+    settle: (eventId, url) => {
+      settled[eventId] = [...(settled[eventId] ?? []), url];
+      save();
+    },
+    forget: (eventId) => {
+      if (!settled[eventId]) return;
+      delete settled[eventId];
+      save();
+    },
+  };
+}
+
+/** Endpoints that want to hear about payments to `merchant`. */
+export const getEndpointsForMerchant = (
+  endpoints: WebhookEndpoint[],
+  merchant: string
+) =>
+  endpoints.filter(
+    ({ merchants }) =>
+      !merchants?.length ||
+      merchants.some((m) => m.toLowerCase() === merchant.toLowerCase())
+  );
+
+/**
+ * Delivers a payment to every endpoint subscribed to its merchant that is
+ * not settled with it yet. An endpoint that gives up is dead-lettered and
+ * does not hold back the others. Throws a WebhookDeliveryError when
+ * deliveries were interrupted, so the watcher keeps the event and only the
+ * unsettled endpoints get it again.
+ */
+export async function deliverPaymentWebhooks(
+  endpoints: WebhookEndpoint[],
+  payload: PaymentWebhookPayload,
+  options: DeliveryOptions & { tracker?: DeliveryTracker } = {}
+) {
+  const { tracker } = options;
+  const targets = getEndpointsForMerchant(endpoints, payload.merchant).filter(
+    ({ url }) => !tracker?.isSettled(payload.id, url)
+  );
+  const outcomes = await Promise.all(
+    targets.map((endpoint) => deliverWebhook(endpoint, payload, options))
+  );
+  const interrupted = targets.filter(({ url }, index) => {
+    if (outcomes[index] === "interrupted") return true;
+    tracker?.settle(payload.id, url);
+    return false;
+  });
+  if (interrupted.length) {
+    throw new WebhookDeliveryError(
+      payload.id,
+      interrupted.map(({ url }) => url)
+    );
+  }
+  tracker?.forget(payload.id);
+}
@@ -0,0 +1,5 @@
+export * from "./config";
+export * from "./delivery";
+export * from "./signature";
+export * from "./types";
+export * from "./watcher";
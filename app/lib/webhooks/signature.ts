@@ -0,0 +1,43 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Halo-Signature";
+
+// Receivers should reject deliveries signed longer ago than this
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const computeSignature = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/**
+ * Header value for a delivery: `t=<unix seconds>,v1=<hex HMAC-SHA256 of
+ * "<t>.<body>">`. Signing the timestamp stops replays of old deliveries.
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+) {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/** Receiver side check of a `X-Halo-Signature` header. */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now = Math.floor(Date.now() / 1000)
+) {
+  const parts = Object.fromEntries(
+    (header ?? "").split(",").map((part) => part.trim().split("=", 2))
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), "hex");
+  const received = Buffer.from(parts.v1, "hex");
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
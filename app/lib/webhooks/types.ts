@@ -0,0 +1,43 @@
+import type { Address, Hash } from "viem";
+
+export interface WebhookEndpoint {
+  url: string;
+  // Shared secret for the HMAC signature header
+  secret: string;
+  // Merchants this endpoint is notified about, all watched merchants if empty
+  merchants?: Address[];
+}
+
+// JSON body of a delivery. bigints are decimal strings.
+export interface PaymentWebhookPayload {
+  // Stable per event, receivers should use it to deduplicate retries
+  id: string;
+  type: "payment.executed";
+  chainId: number;
+  contract: Address;
+  txHash: Hash;
+  logIndex: number;
+  blockNumber: string;
+  // Unix seconds of the block
+  timestamp: number;
+  confirmations: number;
+  payer: Address;
+  merchant: Address;
+  haloAddress: Address;
+  amount: string;
+  amountUsdc: string;
+  nonce: string;
+}
+
+export interface DeliveryLogEntry {
+  time: string;
+  eventId: string;
+  url: string;
+  attempt: number;
+  // Dead-lettered deliveries are given up on and carry the payload, so they
+  // can be replayed from the log
+  status: "delivered" | "retrying" | "dead-lettered";
+  httpStatus?: number;
+  error?: string;
+  payload?: PaymentWebhookPayload;
+}
@@ -0,0 +1,323 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import type { Address, Hash } from "viem";
+import { HALO_PAYMENT_DEPLOYMENTS } from "../halo-payment";
+import {
+  deliverPaymentWebhooks,
+  WebhookDeliveryError,
+  type DeliveryTracker,
+} from "./delivery";
+import type { DeliveryLogEntry, PaymentWebhookPayload } from "./types";
+import {
+  runPaymentWatcher,
+  type PaymentWatcherOptions,
+  type WatcherCursor,
+} from "./watcher";
+
+const deployment = HALO_PAYMENT_DEPLOYMENTS[11155111];
+const MERCHANT: Address = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const PAYER: Address = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const HALO: Address = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+const paymentLog = (blockNumber: number) => ({
+  blockNumber: BigInt(blockNumber),
+  transactionHash: `0x${blockNumber.toString(16).padStart(64, "0")}` as Hash,
+  logIndex: 0,
+  args: {
+    payer: PAYER,
+    merchant: MERCHANT,
+    haloAddress: HALO,
+    amount: BigInt(12_500_000),
+    nonce: BigInt(blockNumber),
+  },
+});
+
+const createMemoryCursor = (start?: bigint) => {
+  const blocks = new Map<number, bigint>();
+  if (start !== undefined) blocks.set(deployment.chain.id, start);
+  const cursor: WatcherCursor = {
+    get: (chainId) => blocks.get(chainId),
+    set: (chainId, block) => blocks.set(chainId, block),
+  };
+  return { cursor, current: () => blocks.get(deployment.chain.id) };
+};
+
+/**
+ * Chain at `head` holding payments in `blocks`. Each poll reads the head
+ * once; the watcher is stopped when `polls` have run.
+ */
+function createFakeChain(head: number, blocks: number[], polls: number) {
+  const controller = new AbortController();
+  const ranges: [bigint, bigint][] = [];
+  let remaining = polls;
+  const publicClient = {
+    getBlockNumber: async () => {
+      if (remaining-- <= 0) controller.abort();
+      return BigInt(head);
+    },
+    getContractEvents: async ({
+      fromBlock,
+      toBlock,
+    }: {
+      fromBlock: bigint;
+      toBlock: bigint;
+    }) => {
+      ranges.push([fromBlock, toBlock]);
+      return blocks
+        .filter((block) => block >= fromBlock && block <= toBlock)
+        .map(paymentLog);
+    },
+    getBlock: async ({ blockNumber }: { blockNumber: bigint }) => ({
+      timestamp: BigInt(1_700_000_000) + blockNumber,
+    }),
+  } as unknown as PaymentWatcherOptions["publicClient"];
+  return { publicClient, signal: controller.signal, ranges };
+}
+
+const watch = (
+  chain: ReturnType<typeof createFakeChain>,
+  cursor: WatcherCursor,
+  onPayment: PaymentWatcherOptions["onPayment"],
+  startBlock?: bigint
+) =>
+  runPaymentWatcher({
+    deployment,
+    merchants: [MERCHANT],
+    confirmations: 3,
+    pollIntervalMs: 0,
+    cursor,
+    startBlock,
+    onPayment,
+    signal: chain.signal,
+    publicClient: chain.publicClient,
+  });
+
+let consoleError: ReturnType<typeof spyOn>;
+beforeEach(() => {
+  consoleError = spyOn(console, "error").mockImplementation(() => {});
+});
+afterEach(() => consoleError.mockRestore());
+
+describe("runPaymentWatcher", () => {
+  test("reports confirmed payments in order and advances the cursor", async () => {
+    const chain = createFakeChain(110, [101, 105, 108], 1);
+    const { cursor, current } = createMemoryCursor();
+    const delivered: PaymentWebhookPayload[] = [];
+
+    await watch(
+      chain,
+      cursor,
+      async (payload) => {
+        delivered.push(payload);
+      },
+      BigInt(100)
+    );
+
+    expect(delivered.map(({ blockNumber }) => blockNumber)).toEqual([
+      "101",
+      "105",
+    ]);
+    expect(delivered[0]).toMatchObject({
+      chainId: deployment.chain.id,
+      merchant: MERCHANT,
+      amount: "12500000",
+      amountUsdc: "12.5",
+      confirmations: 10,
+      timestamp: 1_700_000_101,
+    });
+    // Block 108 has only two confirmations on top
+    expect(current()).toBe(BigInt(107));
+  });
+
+  test("holds the cursor before a failed delivery and retries it", async () => {
+    const chain = createFakeChain(110, [101, 105], 2);
+    const { cursor, current } = createMemoryCursor(BigInt(100));
+    const attempts: string[] = [];
+    let failures = 1;
+
+    await watch(chain, cursor, async ({ blockNumber }) => {
+      attempts.push(blockNumber);
+      if (blockNumber === "105" && failures-- > 0) {
+        throw new WebhookDeliveryError(`event-${blockNumber}`, ["https://x"]);
+      }
+    });
+
+    expect(attempts).toEqual(["101", "105", "105"]);
+    expect(chain.ranges).toEqual([
+      [BigInt(101), BigInt(107)],
+      [BigInt(105), BigInt(107)],
+    ]);
+    expect(current()).toBe(BigInt(107));
+    expect(consoleError).toHaveBeenCalledTimes(1);
+  });
+
+  test("leaves the cursor alone when the first event fails", async () => {
+    const chain = createFakeChain(110, [101], 1);
+    const { cursor, current } = createMemoryCursor(BigInt(100));
+
+    await watch(chain, cursor, async () => {
+      throw new Error("receiver down");
+    });
+
+    expect(current()).toBe(BigInt(100));
+  });
+
+  test("waits while the safe head is behind the cursor", async () => {
+    const chain = createFakeChain(52, [51], 1);
+    const { cursor, current } = createMemoryCursor(BigInt(50));
+
+    await watch(chain, cursor, async () => {});
+
+    expect(chain.ranges).toEqual([]);
+    expect(current()).toBe(BigInt(50));
+  });
+});
+
+const createMemoryTracker = (): DeliveryTracker => {
+  const settled = new Map<string, string[]>();
+  return {
+    isSettled: (eventId, url) => !!settled.get(eventId)?.includes(url),
+    settle: (eventId, url) =>
+      settled.set(eventId, [...(settled.get(eventId) ?? []), url]),
+    forget: (eventId) => settled.delete(eventId),
+  };
+};
+
+// Endpoints answer with the status their URL names, e.g. https://400.example
+const mockEndpoints = () =>
+  spyOn(globalThis, "fetch").mockImplementation(
+    (async (url: string) =>
+      new Response(null, {
+        status: Number(new URL(url).hostname.split(".")[0]),
+      })) as unknown as typeof fetch
+  );
+
+describe("deliverPaymentWebhooks", () => {
+  const payload = {
+    id: "event-1",
+    merchant: MERCHANT,
+  } as PaymentWebhookPayload;
+
+  test("dead-letters endpoints that give up without throwing", async () => {
+    const fetchSpy = mockEndpoints();
+    try {
+      const endpoints = [
+        { url: "https://200.example", secret: "s" },
+        { url: "https://500.example", secret: "s" },
+        // Not subscribed to this merchant
+        { url: "https://201.example", secret: "s", merchants: [PAYER] },
+      ];
+      const log: DeliveryLogEntry[] = [];
+      const tracker = createMemoryTracker();
+      await deliverPaymentWebhooks(endpoints, payload, {
+        maxAttempts: 1,
+        log: (entry) => log.push(entry),
+        tracker,
+      });
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(log.map(({ url, status }) => [url, status])).toEqual([
+        ["https://200.example", "delivered"],
+        ["https://500.example", "dead-lettered"],
+      ]);
+      expect(log[1].payload).toBe(payload);
+      // Settled events are forgotten
+      expect(tracker.isSettled(payload.id, "https://200.example")).toBe(false);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  test("skips endpoints already settled with the event", async () => {
+    const fetchSpy = mockEndpoints();
+    try {
+      const tracker = createMemoryTracker();
+      tracker.settle(payload.id, "https://200.example");
+      await deliverPaymentWebhooks(
+        [
+          { url: "https://200.example", secret: "s" },
+          { url: "https://204.example", secret: "s" },
+        ],
+        payload,
+        { log: () => {}, tracker }
+      );
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(String(fetchSpy.mock.calls[0][0])).toBe("https://204.example");
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  test("throws and keeps the event when interrupted", async () => {
+    const fetchSpy = mockEndpoints();
+    try {
+      const controller = new AbortController();
+      const tracker = createMemoryTracker();
+      const log: DeliveryLogEntry[] = [];
+      const delivery = deliverPaymentWebhooks(
+        [
+          { url: "https://200.example", secret: "s" },
+          { url: "https://503.example", secret: "s" },
+        ],
+        payload,
+        {
+          log: (entry) => {
+            log.push(entry);
+            if (entry.status === "retrying") controller.abort();
+          },
+          tracker,
+          signal: controller.signal,
+        }
+      );
+      const error = await delivery.catch((err: unknown) => err);
+
+      expect(error).toBeInstanceOf(WebhookDeliveryError);
+      expect((error as WebhookDeliveryError).urls).toEqual([
+        "https://503.example",
+      ]);
+      expect(tracker.isSettled(payload.id, "https://200.example")).toBe(true);
+      expect(tracker.isSettled(payload.id, "https://503.example")).toBe(false);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  test("does not let a rejecting endpoint block later payments", async () => {
+    const fetchSpy = mockEndpoints();
+    try {
+      const chain = createFakeChain(110, [101, 105], 2);
+      const { cursor, current } = createMemoryCursor(BigInt(100));
+      const log: DeliveryLogEntry[] = [];
+      const endpoints = [
+        { url: "https://200.example", secret: "s" },
+        { url: "https://400.example", secret: "s" },
+      ];
+
+      await watch(chain, cursor, (payload) =>
+        deliverPaymentWebhooks(endpoints, payload, {
+          log: (entry) => log.push(entry),
+          tracker: createMemoryTracker(),
+        })
+      );
+
+      const byUrl = (url: string) =>
+        log
+          .filter((entry) => entry.url === url)
+          .map(({ eventId, status }) => [eventId.split(":")[0], status]);
+      const chainId = String(deployment.chain.id);
+      expect(byUrl("https://200.example")).toEqual([
+        [chainId, "delivered"],
+        [chainId, "delivered"],
+      ]);
+      // Rejected once per event, without retries
+      expect(byUrl("https://400.example")).toEqual([
+        [chainId, "dead-lettered"],
+        [chainId, "dead-lettered"],
+      ]);
+      expect(new Set(log.map(({ eventId }) => eventId)).size).toBe(2);
+      expect(current()).toBe(BigInt(107));
+      expect(consoleError).not.toHaveBeenCalled();
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
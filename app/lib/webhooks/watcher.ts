@@ -0,0 +1,153 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { formatUnits, type Address } from "viem";
+import {
+  createDeploymentPublicClient,
+  haloPaymentAbi,
+  type HaloPaymentDeployment,
+} from "../halo-payment";
+import { USDC_DECIMALS } from "../pos/cart";
+import type { PaymentWebhookPayload } from "./types";
+
+// Last fully processed block per chain, so a restart resumes without gaps
+export interface WatcherCursor {
+  get(chainId: number): bigint | undefined;
+  set(chainId: number, block: bigint): void;
+}
+
+export function createFileCursor(path: string): WatcherCursor {
+  const blocks: Record<string, string> = existsSync(path)
+    ? JSON.parse(readFileSync(path, "utf8"))
+    : {};
+  return {
+    get: (chainId) =>
+      blocks[chainId] !== undefined ? BigInt(blocks[chainId]) : undefined,
+    set: (chainId, block) => {
+      blocks[chainId] = block.toString();
+      writeFileSync(path, JSON.stringify(blocks, null, 2));
+    },
+  };
+}
+
+export interface PaymentWatcherOptions {
+  deployment: HaloPaymentDeployment;
+  merchants: Address[];
+  // Blocks a payment must be buried under before it is reported
+  confirmations: number;
+  pollIntervalMs: number;
+  cursor: WatcherCursor;
+  // First block to scan when the cursor is empty, defaults to the safe head
+  startBlock?: bigint;
+  // Rejecting holds the cursor before the event, it is retried next poll
+  onPayment: (payload: PaymentWebhookPayload) => Promise<void>;
+  signal?: AbortSignal;
+  // Defaults to a client for the deployment's RPCs
+  publicClient?: Pick<
+    ReturnType<typeof createDeploymentPublicClient>,
+    "getBlockNumber" | "getContractEvents" | "getBlock"
+  >;
+}
+
+const MAX_BLOCK_RANGE = BigInt(2_000);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+/**
+ * Follows PaymentExecuted events for `merchants` on one deployment until
+ * `signal` aborts. Events are handed to `onPayment` in chain order once they
+ * have `confirmations` blocks on top. The cursor only moves past a block
+ * after every event in it was handled; when `onPayment` rejects, the watcher
+ * waits for the next poll and starts again from that block, so delivery is
+ * at least once.
+ */
+export async function runPaymentWatcher({
+  deployment,
+  merchants,
+  confirmations,
+  pollIntervalMs,
+  cursor,
+  startBlock,
+  onPayment,
+  signal,
+  publicClient = createDeploymentPublicClient(deployment),
+}: PaymentWatcherOptions) {
+  const chainId = deployment.chain.id;
+
+  while (!signal?.aborted) {
+    try {
+      const latest = await publicClient.getBlockNumber();
+      // A chain shorter than `confirmations` has nothing to report yet
+      const safeHead =
+        latest > BigInt(confirmations)
+          ? latest - BigInt(confirmations)
+          : BigInt(0);
+      const last = cursor.get(chainId);
+      let from =
+        last !== undefined ? last + BigInt(1) : startBlock ?? safeHead;
+
+      while (from <= safeHead && !signal?.aborted) {
+        const to =
+          from + MAX_BLOCK_RANGE - BigInt(1) < safeHead
+            ? from + MAX_BLOCK_RANGE - BigInt(1)
+            : safeHead;
+        const logs = await publicClient.getContractEvents({
+          address: deployment.haloPayment,
+          abi: haloPaymentAbi,
+          eventName: "PaymentExecuted",
+          args: { merchant: merchants },
+          fromBlock: from,
+          toBlock: to,
+          strict: true,
+        });
+
+        const timestamps = new Map<bigint, number>();
+        for (const log of logs) {
+          if (!timestamps.has(log.blockNumber)) {
+            const block = await publicClient.getBlock({
+              blockNumber: log.blockNumber,
+            });
+            timestamps.set(log.blockNumber, Number(block.timestamp));
+          }
+          const payload: PaymentWebhookPayload = {
+            id: `${chainId}:${log.transactionHash}:${log.logIndex}`,
+            type: "payment.executed",
+            chainId,
+            contract: deployment.haloPayment,
+            txHash: log.transactionHash,
+            logIndex: log.logIndex,
+            blockNumber: log.blockNumber.toString(),
+            timestamp: timestamps.get(log.blockNumber)!,
+            confirmations: Number(latest - log.blockNumber) + 1,
+            payer: log.args.payer,
+            merchant: log.args.merchant,
+            haloAddress: log.args.haloAddress,
+            amount: log.args.amount.toString(),
+            amountUsdc: formatUnits(log.args.amount, USDC_DECIMALS),
+            nonce: log.args.nonce.toString(),
+          };
+          try {
+            await onPayment(payload);
+          } catch (err) {
+            // Keep what was fully handled, retry from the failed event's block
+            if (log.blockNumber > from) {
+              cursor.set(chainId, log.blockNumber - BigInt(1));
+            }
+            throw err;
+          }
+        }
+
+        cursor.set(chainId, to);
+        from = to + BigInt(1);
+      }
+    } catch (err) {
+      console.error(`[watcher] ${deployment.chain.name}:`, err);
+    }
+    await sleep(pollIntervalMs, signal);
+  }
+}
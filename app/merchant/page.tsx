@@ -0,0 +1,323 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Address } from "viem";
+import { useWallets } from "@privy-io/react-auth";
+import PaymentRequestForm from "../components/PaymentRequestForm";
+import {
+  createDeploymentPublicClient,
+  DEFAULT_CHAIN_ID,
+  getDeployment,
+  listDeployments,
+} from "../lib/halo-payment";
+import { getExplorerTxUrl } from "../lib/chains";
+import {
+  clearLedgerCache,
+  computeLedgerStats,
+  downloadFile,
+  getCachedLedgerPayments,
+  ledgerToCsv,
+  ledgerToJson,
+  paymentDay,
+  searchLedger,
+  syncMerchantLedger,
+  type LedgerPayment,
+  type SyncProgress,
+} from "../lib/ledger";
+import { formatUsdc } from "../lib/pos/cart";
+import { getPrivyWallet } from "../lib/wallet";
+
+const shorten = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export default function MerchantLedgerPage() {
+  const { wallets } = useWallets();
+  const wallet = getPrivyWallet(wallets);
+  const merchant = wallet?.address as Address | undefined;
+
+  const [chainId, setChainId] = useState<number>(DEFAULT_CHAIN_ID);
+  const [payments, setPayments] = useState<LedgerPayment[]>([]);
+  const [query, setQuery] = useState<string>("");
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [error, setError] = useState<string>("");
+
+  const deployment = getDeployment(chainId);
+
+  const sync = useCallback(async () => {
+    if (!merchant) return;
+    setIsSyncing(true);
+    setError("");
+    setProgress(null);
+    try {
+      setPayments(
+        await syncMerchantLedger({
+          deployment,
+          publicClient: createDeploymentPublicClient(deployment),
+          merchant,
+          onProgress: setProgress,
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sync payments");
+      // Keep whatever the interrupted sync already stored
+      setPayments(getCachedLedgerPayments(deployment, merchant));
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [deployment, merchant]);
+
+  // Show the cached ledger right away, then catch up with the chain
+  useEffect(() => {
+    if (!merchant) return;
+    setPayments(getCachedLedgerPayments(deployment, merchant));
+    sync();
+  }, [deployment, merchant, sync]);
+
+  const resync = () => {
+    if (!merchant) return;
+    clearLedgerCache(deployment, merchant);
+    setPayments([]);
+    sync();
+  };
+
+  const filtered = useMemo(
+    () => searchLedger(payments, query),
+    [payments, query]
+  );
+  const stats = useMemo(() => computeLedgerStats(filtered), [filtered]);
+
+  const exportLedger = (format: "csv" | "json") => {
+    const name = `halo-sales-${deployment.chain.id}-${merchant?.slice(0, 8)}`;
+    if (format === "csv") {
+      downloadFile(`${name}.csv`, ledgerToCsv(filtered), "text/csv");
+    } else {
+      downloadFile(`${name}.json`, ledgerToJson(filtered), "application/json");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-100 p-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-xl shadow-xl p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-4xl font-bold text-gray-800 mb-4">
+              📒 Sales Ledger
+            </h1>
+            <p className="text-lg text-gray-600">
+              HaLo payments received on {deployment.chain.name}
+            </p>
+            <Link
+              href="/halo-scanner"
+              className="text-sm text-indigo-600 hover:underline"
+            >
+              ← Back to the scanner
+            </Link>
+          </div>
+
+          {!merchant ? (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <p className="text-yellow-800">
+                Connect your wallet to see the payments it received.
+              </p>
+            </div>
+          ) : (
+            <>
+              {/* Chain and Sync Controls */}
+              <div className="flex flex-col sm:flex-row gap-2 mb-4">
+                <select
+                  value={chainId}
+                  onChange={(e) => setChainId(parseInt(e.target.value))}
+                  disabled={isSyncing}
+                  className="flex-1 p-3 border border-gray-300 rounded-lg bg-white text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                >
+                  {listDeployments().map((option) => (
+                    <option key={option.chain.id} value={option.chain.id}>
+                      {option.chain.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={sync}
+                  disabled={isSyncing}
+                  className="px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors"
+                >
+                  {isSyncing ? "Syncing..." : "🔄 Sync"}
+                </button>
+                <button
+                  onClick={resync}
+                  disabled={isSyncing}
+                  className="px-4 py-3 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 text-gray-800 font-semibold rounded-lg transition-colors"
+                >
+                  Rebuild
+                </button>
+              </div>
+
+              {isSyncing && progress && progress.totalBlocks > BigInt(0) && (
+                <div className="mb-4">
+                  <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-600 transition-all"
+                      style={{
+                        width: `${Number(
+                          (progress.scannedBlocks * BigInt(100)) /
+                            progress.totalBlocks
+                        )}%`,
+                      }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Scanned {progress.scannedBlocks.toString()} of{" "}
+                    {progress.totalBlocks.toString()} blocks ·{" "}
+                    {progress.payments} payments
+                  </p>
+                </div>
+              )}
+
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg mb-4">
+                  <p className="text-red-700">❌ {error}</p>
+                </div>
+              )}
+
+              {/* Invoices */}
+              <PaymentRequestForm chainId={chainId} />
+
+              {/* Summary */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+                {[
+                  ["Total sales", `${formatUsdc(stats.total)} USDC`],
+                  ["Payments", stats.count.toString()],
+                  ["Unique payers", stats.uniquePayers.toString()],
+                  ["Average ticket", `${formatUsdc(stats.averageTicket)} USDC`],
+                ].map(([label, value]) => (
+                  <div key={label} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="text-xs text-gray-500">{label}</div>
+                    <div className="text-lg font-semibold text-gray-800">
+                      {value}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Daily Totals */}
+              {stats.daily.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="font-semibold text-gray-800 mb-2">
+                    Daily totals
+                  </h3>
+                  <ul className="divide-y divide-gray-100 text-sm">
+                    {stats.daily.map(({ day, total, count }) => (
+                      <li
+                        key={day}
+                        className="flex justify-between py-1 text-gray-700"
+                      >
+                        <span>{day}</span>
+                        <span>
+                          {formatUsdc(total)} USDC · {count} payment
+                          {count === 1 ? "" : "s"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Search and Export */}
+              <div className="flex flex-col sm:flex-row gap-2 mb-4">
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search payer, tag, transaction or date"
+                  className="flex-1 p-3 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() => exportLedger("csv")}
+                  disabled={!filtered.length}
+                  className="px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors"
+                >
+                  Export CSV
+                </button>
+                <button
+                  onClick={() => exportLedger("json")}
+                  disabled={!filtered.length}
+                  className="px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors"
+                >
+                  Export JSON
+                </button>
+              </div>
+
+              {/* Ledger */}
+              {filtered.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">
+                  {isSyncing
+                    ? "Looking for payments..."
+                    : query
+                    ? "No payments match your search."
+                    : "No HaLo payments received yet."}
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-gray-500 uppercase border-b">
+                      <tr>
+                        <th className="py-2 pr-4">Date</th>
+                        <th className="py-2 pr-4">Amount</th>
+                        <th className="py-2 pr-4">Payer</th>
+                        <th className="py-2 pr-4">Tag</th>
+                        <th className="py-2">Transaction</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 text-gray-700">
+                      {filtered.map((payment) => {
+                        const explorerUrl = getExplorerTxUrl(
+                          deployment.chain.id,
+                          payment.txHash
+                        );
+                        return (
+                          <tr key={`${payment.txHash}:${payment.logIndex}`}>
+                            <td className="py-2 pr-4 whitespace-nowrap">
+                              {paymentDay(payment)}{" "}
+                              {new Date(
+                                payment.timestamp * 1000
+                              ).toLocaleTimeString()}
+                            </td>
+                            <td className="py-2 pr-4 font-semibold whitespace-nowrap">
+                              {formatUsdc(BigInt(payment.amount))} USDC
+                            </td>
+                            <td className="py-2 pr-4 font-mono">
+                              {shorten(payment.payer)}
+                            </td>
+                            <td className="py-2 pr-4 font-mono">
+                              {shorten(payment.haloAddress)}
+                            </td>
+                            <td className="py-2 font-mono">
+                              {explorerUrl ? (
+                                <a
+                                  href={explorerUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-indigo-600 hover:underline"
+                                >
+                                  {shorten(payment.txHash)}
+                                </a>
+                              ) : (
+                                shorten(payment.txHash)
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
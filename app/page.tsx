@@ -5,9 +5,11 @@ import { usePrivy } from "@privy-io/react-auth";
 import NexusDashboard from "./components/NexusDashboard";
 import BridgeInterface from "./components/BridgeInterface";
 import UsdcTransfer from "./components/UsdcTransfer";
+import { useNetwork } from "./components/NetworkProvider";
 
 export default function Home() {
   const { ready, authenticated, user } = usePrivy();
+  const { network } = useNetwork();
 
   return (
     <div className="flex flex-col items-center justify-start min-h-[calc(100vh-64px)] p-8 pb-20 gap-8 sm:p-20 font-[family-name:var(--font-geist-sans)]">
@@ -68,14 +70,15 @@ export default function Home() {
         {/* Bridge Interface - only show when authenticated */}
         {ready && (
           <div className="w-full max-w-6xl">
-            <BridgeInterface />
+            {/* Keyed so a network switch resets the form's chain and token */}
+            <BridgeInterface key={network} />
           </div>
         )}
 
         {/* USDC Transfer - only show when authenticated */}
         {ready && (
           <div className="w-full max-w-6xl">
-            <UsdcTransfer />
+            <UsdcTransfer key={network} />
           </div>
         )}
 
@@ -0,0 +1,285 @@
+"use client";
+
+import Link from "next/link";
+import { Suspense, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { isAddressEqual, type Hash } from "viem";
+import { useWallets } from "@privy-io/react-auth";
+import { execHaloCmd } from "../lib/halo";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  decodePaymentRequest,
+  describeHaloPaymentError,
+  findRegisteredSlot,
+  getPaymentRequestNonce,
+  getReceiptPath,
+  HALO_PAYMENT_DEPLOYMENTS,
+  isPaymentRequestExpired,
+  verifyPaymentRequest,
+  type SignedPaymentRequest,
+} from "../lib/halo-payment";
+import { formatUsdc } from "../lib/pos/cart";
+import { fetchRelayerStatus, submitRelayedPayment } from "../lib/relayer/client";
+import { createWalletHaloPaymentClient, getPrivyWallet } from "../lib/wallet";
+
+function PaymentRequestCheckout() {
+  const searchParams = useSearchParams();
+  const encoded = searchParams.get("r") ?? "";
+
+  const { wallets } = useWallets();
+  const connectedWallet = getPrivyWallet(wallets);
+
+  const [signatureValid, setSignatureValid] = useState<boolean | null>(null);
+  const [relayerEnabled, setRelayerEnabled] = useState<boolean>(false);
+  const [isPaying, setIsPaying] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [paidHash, setPaidHash] = useState<Hash | null>(null);
+
+  const parsed = useMemo((): {
+    request?: SignedPaymentRequest;
+    error?: string;
+  } => {
+    if (!encoded) return { error: "This page needs a payment link." };
+    try {
+      return { request: decodePaymentRequest(encoded) };
+    } catch (err) {
+      return {
+        error: err instanceof Error ? err.message : "Invalid payment link",
+      };
+    }
+  }, [encoded]);
+  const request = parsed.request;
+  const deployment = request ? HALO_PAYMENT_DEPLOYMENTS[request.chainId] : undefined;
+  // The request must name the contract this app settles through
+  const knownContract =
+    !!request &&
+    !!deployment &&
+    isAddressEqual(deployment.haloPayment, request.contract);
+  const expired = !!request && isPaymentRequestExpired(request);
+
+  useEffect(() => {
+    if (!request) return;
+    verifyPaymentRequest(request)
+      .then(setSignatureValid)
+      .catch(() => setSignatureValid(false));
+    fetchRelayerStatus(request.chainId).then(({ enabled }) =>
+      setRelayerEnabled(enabled)
+    );
+  }, [request]);
+
+  const pay = async () => {
+    if (!request || !deployment) return;
+    setIsPaying(true);
+    setError("");
+    try {
+      if (isPaymentRequestExpired(request)) {
+        throw new Error("This payment request has expired.");
+      }
+      if (!relayerEnabled && !connectedWallet) {
+        throw new Error(
+          "Connect a wallet to pay the network fee for this payment."
+        );
+      }
+
+      const publicClient = createDeploymentPublicClient(deployment);
+      const haloPayment = createHaloPaymentClient({
+        address: deployment.haloPayment,
+        publicClient,
+      });
+
+      setStatus("Hold the HaLo tag near the device to identify the payer...");
+      const { etherAddresses } = await execHaloCmd({ name: "get_pkeys" });
+      const slot = await findRegisteredSlot(haloPayment, etherAddresses);
+      if (!slot) {
+        throw new Error(
+          "None of the keys on this HaLo tag is registered for payments."
+        );
+      }
+      const { keyNo, haloAddress, payer } = slot;
+
+      const nonce = getPaymentRequestNonce(request);
+      if (await haloPayment.isNonceUsed(payer, nonce)) {
+        throw new Error("This customer has already paid this request.");
+      }
+      const allowance = await haloPayment.getAllowance(payer, deployment.usdc);
+      if (allowance < request.amount) {
+        throw new Error("Insufficient USDC allowance for payment.");
+      }
+
+      const message = {
+        payer,
+        merchant: request.merchant,
+        amount: request.amount,
+        nonce,
+      };
+      setStatus("Tap the HaLo tag again to sign the payment...");
+      const result = await execHaloCmd({
+        name: "sign",
+        message: haloPayment.hashPayment(message),
+        format: "hex",
+        keyNo,
+      });
+      if (!result.signature || !result.signature.ether) {
+        throw new Error("No signature received from HaLo tag");
+      }
+      const { valid } = await haloPayment.verifyPaymentSignature(
+        message,
+        result.signature.ether,
+        haloAddress
+      );
+      if (!valid) {
+        throw new Error(
+          "The signature does not match the registered HaLo key. Tap the registered tag again."
+        );
+      }
+
+      const payment = {
+        haloAddress,
+        merchant: request.merchant,
+        amount: request.amount,
+        nonce,
+        signature: result.signature.ether,
+      };
+      let hash: Hash;
+      if (relayerEnabled) {
+        setStatus("Sending payment to the relayer...");
+        hash = await submitRelayedPayment({
+          chainId: request.chainId,
+          ...payment,
+        });
+      } else {
+        setStatus("Confirm the transaction in your wallet...");
+        const { client } = await createWalletHaloPaymentClient(
+          connectedWallet!,
+          deployment,
+          publicClient
+        );
+        await client.simulateExecutePaymentFromHalo(payment);
+        hash = await client.executePaymentFromHalo(payment);
+      }
+      setPaidHash(hash);
+      setStatus(`Payment of ${formatUsdc(request.amount)} USDC submitted.`);
+    } catch (err) {
+      setError(describeHaloPaymentError(err, "Payment failed"));
+      setStatus("");
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  if (!request) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+        <p className="text-red-700">❌ {parsed.error}</p>
+      </div>
+    );
+  }
+
+  const blocker = !deployment
+    ? `HaloPayment is not configured for chain ${request.chainId} in this app.`
+    : !knownContract
+    ? "This request points to an unknown HaloPayment contract."
+    : signatureValid === false
+    ? "The merchant's signature on this request is invalid. Do not pay it."
+    : expired
+    ? "This payment request has expired. Ask the merchant for a new one."
+    : "";
+
+  return (
+    <>
+      <div className="text-center mb-6">
+        <p className="text-sm text-gray-500 mb-1">Amount due</p>
+        <p className="text-4xl font-bold text-gray-800">
+          {formatUsdc(request.amount)} USDC
+        </p>
+      </div>
+
+      <dl className="divide-y divide-gray-100 text-sm mb-6">
+        {(
+          [
+            ["Merchant", request.merchant],
+            ["Reference", request.reference || "—"],
+            ["Network", deployment?.chain.name ?? `Chain ${request.chainId}`],
+            ["Expires", new Date(request.expiry * 1000).toLocaleString()],
+            [
+              "Signature",
+              signatureValid === null
+                ? "Checking..."
+                : signatureValid
+                ? "✅ Signed by the merchant"
+                : "❌ Invalid",
+            ],
+          ] as const
+        ).map(([label, value]) => (
+          <div key={label} className="py-2 flex justify-between gap-4">
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-gray-800 font-mono text-right break-all">
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {blocker && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-red-700">⚠️ {blocker}</p>
+        </div>
+      )}
+
+      {!paidHash && (
+        <button
+          onClick={pay}
+          disabled={isPaying || !!blocker || !signatureValid}
+          className="w-full p-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition-colors mb-4"
+        >
+          {isPaying ? "Processing..." : "📲 Tap HaLo to pay"}
+        </button>
+      )}
+      {!relayerEnabled && !blocker && (
+        <p className="text-xs text-gray-500 mb-4 text-center">
+          No relayer is available, the connected wallet pays the network fee.
+        </p>
+      )}
+
+      {status && (
+        <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg mb-4">
+          <p className="text-purple-700">{status}</p>
+          {paidHash && (
+            <Link
+              href={getReceiptPath(request.chainId, paidHash)}
+              className="inline-block mt-3 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold rounded-lg"
+            >
+              🧾 Show receipt
+            </Link>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700">❌ {error}</p>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default function PayPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-100 p-4">
+      <div className="max-w-lg mx-auto">
+        <div className="bg-white rounded-xl shadow-xl p-8">
+          <h1 className="text-3xl font-bold text-gray-800 mb-6 text-center">
+            💳 Payment Request
+          </h1>
+          {/* useSearchParams needs a suspense boundary for prerendering */}
+          <Suspense fallback={<p className="text-gray-500">Loading...</p>}>
+            <PaymentRequestCheckout />
+          </Suspense>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import QRCode from "qrcode";
+import { isHash, type Hash } from "viem";
+import {
+  createDeploymentPublicClient,
+  createHaloPaymentClient,
+  fetchPaymentReceipt,
+  HALO_PAYMENT_DEPLOYMENTS,
+  type PaymentReceipt,
+} from "../../../lib/halo-payment";
+import { getExplorerTxUrl } from "../../../lib/chains";
+import { formatUsdc } from "../../../lib/pos/cart";
+
+export default function ReceiptPage() {
+  const params = useParams<{ chainId: string; txHash: string }>();
+  const chainId = Number(params.chainId);
+  const txHash = params.txHash as Hash;
+  const deployment = HALO_PAYMENT_DEPLOYMENTS[chainId];
+
+  const [receipt, setReceipt] = useState<PaymentReceipt | null>(null);
+  const [qrCode, setQrCode] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>("");
+
+  useEffect(() => {
+    if (!deployment) {
+      setError(`HaloPayment is not deployed on chain ${params.chainId}.`);
+      setIsLoading(false);
+      return;
+    }
+    if (!isHash(txHash)) {
+      setError("This is not a valid transaction hash.");
+      setIsLoading(false);
+      return;
+    }
+    const haloPayment = createHaloPaymentClient({
+      address: deployment.haloPayment,
+      publicClient: createDeploymentPublicClient(deployment),
+    });
+    fetchPaymentReceipt(haloPayment, txHash)
+      .then((result) => {
+        if (!result) {
+          setError("This transaction does not contain a HaLo payment.");
+        }
+        setReceipt(result);
+      })
+      .catch((err) => {
+        console.error("Failed to load receipt:", err);
+        setError(
+          "Could not load this transaction. It may still be pending, try again in a moment."
+        );
+      })
+      .finally(() => setIsLoading(false));
+  }, [deployment, txHash, params.chainId]);
+
+  // QR code of this page, so the customer can scan it off the merchant screen
+  useEffect(() => {
+    QRCode.toDataURL(window.location.href, { width: 240, margin: 1 })
+      .then(setQrCode)
+      .catch((err) => console.error("Failed to render QR code:", err));
+  }, []);
+
+  const explorerUrl = getExplorerTxUrl(chainId, txHash);
+
+  const rows: [string, React.ReactNode][] = receipt
+    ? [
+        ["Date", new Date(receipt.timestamp * 1000).toLocaleString()],
+        ["Merchant", receipt.merchant],
+        ["Payer", receipt.payer],
+        ["HaLo tag", receipt.haloAddress],
+        ["Nonce", receipt.nonce.toString()],
+        ["Block", receipt.blockNumber.toString()],
+        ["Network", deployment?.chain.name],
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 to-blue-100 p-4">
+      <div className="max-w-lg mx-auto">
+        <div className="bg-white rounded-xl shadow-xl p-8">
+          <div className="text-center mb-6">
+            <h1 className="text-3xl font-bold text-gray-800 mb-2">
+              🧾 Payment Receipt
+            </h1>
+            {receipt && (
+              <p className="text-4xl font-bold text-green-700">
+                {formatUsdc(receipt.amount)} USDC
+              </p>
+            )}
+          </div>
+
+          {isLoading && (
+            <p className="text-center text-gray-500">
+              Waiting for the payment to be confirmed...
+            </p>
+          )}
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg mb-4">
+              <p className="text-red-700">❌ {error}</p>
+            </div>
+          )}
+
+          {receipt && (
+            <dl className="divide-y divide-gray-100 text-sm mb-6">
+              {rows.map(([label, value]) => (
+                <div key={label} className="py-2 flex justify-between gap-4">
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className="text-gray-800 font-mono text-right break-all">
+                    {value}
+                  </dd>
+                </div>
+              ))}
+              <div className="py-2 flex justify-between gap-4">
+                <dt className="text-gray-500">Transaction</dt>
+                <dd className="font-mono text-right break-all">
+                  {explorerUrl ? (
+                    <a
+                      href={explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-indigo-600 hover:underline"
+                    >
+                      {txHash}
+                    </a>
+                  ) : (
+                    txHash
+                  )}
+                </dd>
+              </div>
+            </dl>
+          )}
+
+          {qrCode && (
+            <div className="flex flex-col items-center">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={qrCode}
+                alt="QR code linking to this receipt"
+                width={240}
+                height={240}
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                Scan to keep a copy of this receipt
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
@@ -14,6 +15,7 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * Flow:
  * 1. User approves this contract to spend their USDC
  * 2. User registers their HaLo address as authorized signer
+ *    (or does both at once with registerHaloAddressWithPermit)
  * 3. Merchant scans HaLo chip to get signature
  * 4. Merchant calls executePayment with signature to claim USDC
  */
@@ -53,6 +55,7 @@ contract HaloPayment is ReentrancyGuard, Ownable {
     error TransferFailed();
     error InvalidAmount();
     error ZeroAddress();
+    error PermitFailed();
 
     /**
      * @dev Constructor
@@ -68,24 +71,35 @@ contract HaloPayment is ReentrancyGuard, Ownable {
      * @param haloAddress The HaLo address to authorize
      */
     function registerHaloAddress(address haloAddress) external {
-        if (haloAddress == address(0)) revert ZeroAddress();
-        
-        // Check if this HaLo address is already registered to another user
-        if (haloToUserAddress[haloAddress] != address(0) && haloToUserAddress[haloAddress] != msg.sender) {
-            revert HaloAddressAlreadyRegistered();
-        }
-        
-        // Remove old mapping if user had a different HaLo address
-        address oldHaloAddress = authorizedHaloAddresses[msg.sender];
-        if (oldHaloAddress != address(0)) {
-            delete haloToUserAddress[oldHaloAddress];
+        _registerHaloAddress(msg.sender, haloAddress);
+    }
+
+    /**
+     * @dev Register a HaLo address and set the USDC allowance in one
+     * transaction, using an EIP-2612 permit signed by the caller
+     * @param haloAddress The HaLo address to authorize
+     * @param value Allowance to grant this contract
+     * @param deadline Permit expiry timestamp
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function registerHaloAddressWithPermit(
+        address haloAddress,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        // Anyone can submit a permit, so a front-run one has already been used.
+        // Accept that as long as the allowance it granted is in place.
+        try IERC20Permit(address(usdc)).permit(msg.sender, address(this), value, deadline, v, r, s) {
+        } catch {
+            if (usdc.allowance(msg.sender, address(this)) < value) revert PermitFailed();
         }
-        
-        // Set new mappings
-        authorizedHaloAddresses[msg.sender] = haloAddress;
-        haloToUserAddress[haloAddress] = msg.sender;
-        
-        emit HaloAddressRegistered(msg.sender, haloAddress);
+
+        _registerHaloAddress(msg.sender, haloAddress);
     }
 
     /**
@@ -234,6 +248,30 @@ contract HaloPayment is ReentrancyGuard, Ownable {
         _executePaymentInternal(payer, merchant, amount, nonce, signature, haloAddress);
     }
 
+    /**
+     * @dev Internal function to register a HaLo address (shared logic)
+     */
+    function _registerHaloAddress(address user, address haloAddress) internal {
+        if (haloAddress == address(0)) revert ZeroAddress();
+        
+        // Check if this HaLo address is already registered to another user
+        if (haloToUserAddress[haloAddress] != address(0) && haloToUserAddress[haloAddress] != user) {
+            revert HaloAddressAlreadyRegistered();
+        }
+        
+        // Remove old mapping if user had a different HaLo address
+        address oldHaloAddress = authorizedHaloAddresses[user];
+        if (oldHaloAddress != address(0)) {
+            delete haloToUserAddress[oldHaloAddress];
+        }
+        
+        // Set new mappings
+        authorizedHaloAddresses[user] = haloAddress;
+        haloToUserAddress[haloAddress] = user;
+        
+        emit HaloAddressRegistered(user, haloAddress);
+    }
+
     /**
      * @dev Internal function to execute payment (shared logic)
      */
@@ -5,6 +5,7 @@ import {Test, console} from "forge-std/Test.sol";
 import {HaloPayment} from "../src/HaloPayment.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
 // Mock USDC contract for testing
 contract MockUSDC is ERC20 {
@@ -19,6 +20,19 @@ contract MockUSDC is ERC20 {
     }
 }
 
+// Mock USDC with EIP-2612 permit, like USDC on most chains
+contract MockUSDCPermit is ERC20Permit {
+    constructor() ERC20("Mock USDC", "USDC") ERC20Permit("Mock USDC") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+}
+
 contract HaloPaymentTest is Test {
     HaloPayment public haloPayment;
     MockUSDC public usdc;
@@ -354,4 +368,119 @@ contract HaloPaymentTest is Test {
         vm.prank(merchant);
         haloPayment.executePayment(user, merchant, amount, nonce, signature);
     }
-} 
\ No newline at end of file
+} 
+
+contract HaloPaymentPermitTest is Test {
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    HaloPayment public haloPayment;
+    MockUSDCPermit public usdc;
+
+    uint256 public userPrivateKey = 0xA11CE;
+    address public user = vm.addr(userPrivateKey);
+    address public merchant = address(0x2);
+    uint256 public haloPrivateKey = 0x123;
+    address public haloAddress = vm.addr(haloPrivateKey);
+
+    function setUp() public {
+        usdc = new MockUSDCPermit();
+        haloPayment = new HaloPayment(address(usdc));
+        usdc.mint(user, 1000 * 10**6); // 1000 USDC
+    }
+
+    function _signPermit(uint256 value, uint256 deadline)
+        internal
+        view
+        returns (uint8 v, bytes32 r, bytes32 s)
+    {
+        bytes32 structHash = keccak256(
+            abi.encode(PERMIT_TYPEHASH, user, address(haloPayment), value, usdc.nonces(user), deadline)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash));
+        return vm.sign(userPrivateKey, digest);
+    }
+
+    function test_RegisterHaloAddressWithPermit() public {
+        uint256 value = 50 * 10**6; // 50 USDC cap
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(value, deadline);
+
+        vm.prank(user);
+        haloPayment.registerHaloAddressWithPermit(haloAddress, value, deadline, v, r, s);
+
+        assertEq(haloPayment.getAuthorizedHaloAddress(user), haloAddress);
+        assertEq(usdc.allowance(user, address(haloPayment)), value);
+        assertEq(usdc.nonces(user), 1);
+    }
+
+    function test_RegisterHaloAddressWithPermit_FrontRunPermit() public {
+        uint256 value = 50 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(value, deadline);
+
+        // Someone submits the permit from the mempool first
+        usdc.permit(user, address(haloPayment), value, deadline, v, r, s);
+
+        vm.prank(user);
+        haloPayment.registerHaloAddressWithPermit(haloAddress, value, deadline, v, r, s);
+
+        assertEq(haloPayment.getAuthorizedHaloAddress(user), haloAddress);
+        assertEq(usdc.allowance(user, address(haloPayment)), value);
+    }
+
+    function test_RegisterHaloAddressWithPermit_RevertExpiredPermit() public {
+        uint256 value = 50 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(value, deadline);
+
+        vm.warp(deadline + 1);
+        vm.prank(user);
+        vm.expectRevert(HaloPayment.PermitFailed.selector);
+        haloPayment.registerHaloAddressWithPermit(haloAddress, value, deadline, v, r, s);
+    }
+
+    function test_RegisterHaloAddressWithPermit_RevertPermitFromOtherSigner() public {
+        uint256 value = 50 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(value, deadline);
+
+        // The permit is bound to `user`, another caller cannot use it
+        vm.prank(merchant);
+        vm.expectRevert(HaloPayment.PermitFailed.selector);
+        haloPayment.registerHaloAddressWithPermit(haloAddress, value, deadline, v, r, s);
+    }
+
+    function test_RegisterHaloAddressWithPermit_ZeroValueResetsAllowance() public {
+        vm.prank(user);
+        usdc.approve(address(haloPayment), 100 * 10**6);
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(0, deadline);
+
+        vm.prank(user);
+        haloPayment.registerHaloAddressWithPermit(haloAddress, 0, deadline, v, r, s);
+
+        assertEq(usdc.allowance(user, address(haloPayment)), 0);
+    }
+
+    function test_ExecutePayment_AfterPermitRegistration() public {
+        uint256 value = 50 * 10**6;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(value, deadline);
+        vm.prank(user);
+        haloPayment.registerHaloAddressWithPermit(haloAddress, value, deadline, v, r, s);
+
+        uint256 amount = 10 * 10**6;
+        uint256 nonce = 1;
+        bytes32 ethSignedMessageHash = haloPayment.getEthSignedMessageHash(user, merchant, amount, nonce);
+        (v, r, s) = vm.sign(haloPrivateKey, ethSignedMessageHash);
+
+        vm.prank(merchant);
+        haloPayment.executePaymentFromHalo(haloAddress, merchant, amount, nonce, abi.encodePacked(r, s, v));
+
+        // The payment draws down the cap set by the permit
+        assertEq(usdc.allowance(user, address(haloPayment)), value - amount);
+        assertEq(usdc.balanceOf(merchant), amount);
+    }
+}
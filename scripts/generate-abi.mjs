@@ -0,0 +1,22 @@
+// Regenerates app/lib/halo-payment/abi.ts from the Foundry build output.
+// Run `forge build` in halo-payment-contract first.
+import { readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const artifactPath =
+  process.argv[2] ??
+  join(root, "halo-payment-contract/out/HaloPayment.sol/HaloPayment.json");
+const outputPath = join(root, "app/lib/halo-payment/abi.ts");
+
+const { abi } = JSON.parse(readFileSync(artifactPath, "utf8"));
+
+const source = `// Generated by scripts/generate-abi.mjs from the Foundry build output of
+// halo-payment-contract/src/HaloPayment.sol. Do not edit by hand.
+
+export const haloPaymentAbi = ${JSON.stringify(abi, null, 2)} as const;
+`;
+
+writeFileSync(outputPath, source);
+console.log(`Wrote ${abi.length} ABI entries to ${outputPath}`);
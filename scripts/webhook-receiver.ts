@@ -0,0 +1,33 @@
+// Minimal webhook endpoint for local end-to-end tests: verifies the HMAC
+// signature and prints every delivery. Run with `bun run webhooks:receive`.
+import { createServer } from "http";
+import {
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "../app/lib/webhooks/signature";
+
+const port = Number(process.env.WEBHOOK_RECEIVER_PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET ?? "";
+
+createServer((request, response) => {
+  let body = "";
+  request.on("data", (chunk) => (body += chunk));
+  request.on("end", () => {
+    const header = request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()];
+    if (
+      !verifyWebhookSignature(
+        secret,
+        typeof header === "string" ? header : null,
+        body
+      )
+    ) {
+      console.log("Rejected delivery with an invalid signature");
+      response.writeHead(401).end();
+      return;
+    }
+    console.log(JSON.stringify(JSON.parse(body), null, 2));
+    response.writeHead(204).end();
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
@@ -0,0 +1,66 @@
+// Follows PaymentExecuted events and POSTs signed webhooks for them.
+// Run with `bun run webhooks:watch`; settings come from the WEBHOOK_* env
+// variables documented in the README.
+import { listDeployments } from "../app/lib/halo-payment";
+import {
+  consoleDeliveryLog,
+  createFileCursor,
+  createFileDeliveryLog,
+  createFileDeliveryTracker,
+  deliverPaymentWebhooks,
+  loadWebhookWatcherConfig,
+  runPaymentWatcher,
+  type DeliveryLog,
+} from "../app/lib/webhooks";
+
+const config = loadWebhookWatcherConfig();
+
+const deployments = listDeployments().filter(
+  ({ chain }) => !config.chainIds.length || config.chainIds.includes(chain.id)
+);
+if (!deployments.length) {
+  throw new Error(
+    `No HaloPayment deployment configured for chains ${config.chainIds.join(", ")}`
+  );
+}
+
+const fileLog = config.logFile ? createFileDeliveryLog(config.logFile) : null;
+const log: DeliveryLog = (entry) => {
+  consoleDeliveryLog(entry);
+  fileLog?.(entry);
+};
+
+const cursor = createFileCursor(config.stateFile);
+const tracker = createFileDeliveryTracker(config.deliveriesFile);
+const controller = new AbortController();
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => controller.abort());
+}
+
+console.log(
+  `Watching ${config.merchants.length} merchant(s) on ${deployments
+    .map(({ chain }) => chain.name)
+    .join(", ")} with ${config.confirmations} confirmation(s)`
+);
+
+await Promise.all(
+  deployments.map((deployment) =>
+    runPaymentWatcher({
+      deployment,
+      merchants: config.merchants,
+      confirmations: config.confirmations,
+      pollIntervalMs: config.pollIntervalMs,
+      startBlock: config.startBlock,
+      cursor,
+      signal: controller.signal,
+      // Endpoints that give up are dead-lettered. Only a shutdown mid-delivery
+      // throws, which holds the cursor back for the unsettled endpoints.
+      onPayment: (payload) =>
+        deliverPaymentWebhooks(config.endpoints, payload, {
+          log,
+          tracker,
+          signal: controller.signal,
+        }),
+    })
+  )
+);